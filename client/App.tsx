@@ -4,18 +4,31 @@ import { Toaster } from "@/components/ui/toaster";
 import { createRoot } from "react-dom/client";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthWrapper } from "./components/auth/AuthWrapper";
 import { ChatLayout } from "./components/chat/ChatLayout";
+import { GemsPage } from "./components/gems/GemsPage";
 import { useAppStore } from "./store";
 import { useEffect } from "react";
+import { useTabSync } from "./hooks/use-tab-sync";
+import { queryClient } from "./lib/query-client";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// Reopens the chat that was open last time
+function HomeRedirect() {
+  const activeChatroomId = useAppStore((state) => state.activeChatroomId);
+  return (
+    <Navigate
+      to={activeChatroomId ? `/chat/${activeChatroomId}` : "/chat/new"}
+      replace
+    />
+  );
+}
 
 function AppContent() {
   const { theme } = useAppStore();
+  useTabSync();
 
   useEffect(() => {
     // Apply theme to document
@@ -27,7 +40,10 @@ function AppContent() {
       <BrowserRouter>
         <AuthWrapper>
           <Routes>
-            <Route path="/" element={<ChatLayout />} />
+            <Route path="/" element={<HomeRedirect />} />
+            <Route path="/chat/new" element={<ChatLayout />} />
+            <Route path="/chat/:chatroomId" element={<ChatLayout />} />
+            <Route path="/gems" element={<GemsPage />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
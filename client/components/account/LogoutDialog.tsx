@@ -0,0 +1,73 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useAppStore } from "@/store";
+import { logout as endServerSession } from "@/lib/api";
+
+interface LogoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function LogoutDialog({ open, onOpenChange }: LogoutDialogProps) {
+  const { logout } = useAppStore();
+  const [clearHistory, setClearHistory] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleLogout = async () => {
+    setLoading(true);
+    try {
+      await endServerSession();
+    } catch (error) {
+      // The session may already be gone server-side; log out locally anyway
+      console.error("Failed to end server session:", error);
+    }
+    logout({ clearHistory });
+    setLoading(false);
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Log out</AlertDialogTitle>
+          <AlertDialogDescription>
+            You will need to verify your phone number again to sign back in.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="clear-history"
+            checked={clearHistory}
+            onCheckedChange={(checked) => setClearHistory(checked === true)}
+          />
+          <Label htmlFor="clear-history" className="font-normal">
+            Also delete chat history stored on this device
+          </Label>
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              handleLogout();
+            }}
+            disabled={loading}
+          >
+            {loading ? "Logging out..." : "Log out"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { LaptopIcon, SmartphoneIcon } from "lucide-react";
+import type { SessionDto } from "@shared/api";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { listSessions, revokeSession } from "@/lib/api";
+
+interface SessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Good enough to tell devices apart; not meant as full UA parsing
+function describeDevice(userAgent?: string) {
+  if (!userAgent) return { name: "Unknown device", mobile: false };
+
+  const browser =
+    ["Edg", "Firefox", "Chrome", "Safari"].find((name) =>
+      userAgent.includes(`${name}/`),
+    ) ?? "Browser";
+  const os =
+    [
+      ["Android", "Android"],
+      ["iPhone", "iOS"],
+      ["iPad", "iPadOS"],
+      ["Mac OS X", "macOS"],
+      ["Windows", "Windows"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "Unknown OS";
+
+  return {
+    name: `${browser === "Edg" ? "Edge" : browser} on ${os}`,
+    mobile: /Android|iPhone|iPad|Mobile/.test(userAgent),
+  };
+}
+
+export function SessionsDialog({ open, onOpenChange }: SessionsDialogProps) {
+  const [sessions, setSessions] = useState<SessionDto[] | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const { sessions } = await listSessions();
+      setSessions(sessions);
+    } catch (error) {
+      toast({
+        title: "Failed to load sessions",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (open) {
+      setSessions(null);
+      loadSessions();
+    }
+  }, [open, loadSessions]);
+
+  const handleRevoke = async (id: string) => {
+    setRevokingId(id);
+    try {
+      await revokeSession(id);
+      setSessions((prev) => prev?.filter((session) => session.id !== id));
+    } catch (error) {
+      toast({
+        title: "Failed to sign out device",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Devices & sessions</DialogTitle>
+          <DialogDescription>
+            Devices currently signed in to your account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {sessions === null
+            ? Array.from({ length: 2 }).map((_, i) => (
+                <Skeleton key={`skeleton-${i}`} className="h-14 w-full" />
+              ))
+            : sessions.map((session) => {
+                const device = describeDevice(session.userAgent);
+                const DeviceIcon = device.mobile ? SmartphoneIcon : LaptopIcon;
+
+                return (
+                  <div
+                    key={session.id}
+                    className="flex items-center gap-3 rounded-lg border border-border p-3"
+                  >
+                    <DeviceIcon className="h-5 w-5 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium truncate">
+                          {device.name}
+                        </p>
+                        {session.current && (
+                          <Badge variant="secondary">This device</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Last active{" "}
+                        {formatDistanceToNow(new Date(session.lastSeenAt), {
+                          addSuffix: true,
+                        })}
+                      </p>
+                    </div>
+                    {!session.current && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRevoke(session.id)}
+                        disabled={revokingId === session.id}
+                      >
+                        {revokingId === session.id
+                          ? "Signing out..."
+                          : "Sign out"}
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
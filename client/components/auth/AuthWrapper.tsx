@@ -1,9 +1,57 @@
+import { useEffect, useState } from "react";
 import { PhoneLogin } from "./PhoneLogin";
 import { OtpVerification } from "./OtpVerification";
 import { useAppStore } from "@/store";
+import { getMe, setSessionExpiredHandler } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
 
 export function AuthWrapper({ children }: { children: React.ReactNode }) {
-  const { user, otpSent } = useAppStore();
+  const { user, otpSent, setUser, persistIssues, clearPersistIssues } =
+    useAppStore();
+  const [hydrated, setHydrated] = useState(useAppStore.persist.hasHydrated);
+  const [checkingSession, setCheckingSession] = useState(true);
+
+  // Saved state loads asynchronously; anything set before it arrives would
+  // be overwritten by it
+  useEffect(() => {
+    const unsubscribe = useAppStore.persist.onFinishHydration(() =>
+      setHydrated(true),
+    );
+    if (useAppStore.persist.hasHydrated()) setHydrated(true);
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (persistIssues.length === 0) return;
+    toast({
+      title: "Some saved data couldn't be restored",
+      description:
+        "It was backed up in this browser and the rest of your data was loaded.",
+      variant: "destructive",
+    });
+    clearPersistIssues();
+  }, [persistIssues, clearPersistIssues]);
+
+  // The persisted user is only a hint; the server session is the source of truth
+  useEffect(() => {
+    if (!hydrated) return;
+    setSessionExpiredHandler(() => setUser(null));
+
+    getMe()
+      .then(({ user }) => setUser({ ...user, isAuthenticated: true }))
+      .catch(() => setUser(null))
+      .finally(() => setCheckingSession(false));
+
+    return () => setSessionExpiredHandler(null);
+  }, [hydrated, setUser]);
+
+  if (!hydrated || checkingSession) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
 
   if (!user?.isAuthenticated) {
     return otpSent ? <OtpVerification /> : <PhoneLogin />;
@@ -18,6 +18,7 @@ import {
 } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { useAppStore } from "@/store";
+import { requestOtp, verifyOtp } from "@/lib/api";
 
 const otpSchema = z.object({
   otp: z.string().length(6, "OTP must be exactly 6 digits"),
@@ -29,7 +30,8 @@ export function OtpVerification() {
   const [loading, setLoading] = useState(false);
   const [countdown, setCountdown] = useState(30);
   const { toast } = useToast();
-  const { setUser, setOtpSent, setAuthenticating } = useAppStore();
+  const { otpPhone, setUser, setOtpSent, setOtpPhone, setAuthenticating } =
+    useAppStore();
 
   const {
     handleSubmit,
@@ -50,41 +52,56 @@ export function OtpVerification() {
   }, [countdown]);
 
   const onSubmit = async (data: OtpFormData) => {
+    if (!otpPhone) return;
     setLoading(true);
 
-    // Simulate OTP verification
-    setTimeout(() => {
-      // In a real app, you'd verify the OTP with your backend
-      // For demo purposes, accept any 6-digit code
-      const mockUser = {
-        id: crypto.randomUUID(),
-        phone: "+1 234 567 8900", // This would come from the previous step
-        countryCode: "+1",
-        isAuthenticated: true,
-      };
+    try {
+      const { user } = await verifyOtp({ ...otpPhone, code: data.otp });
 
-      setUser(mockUser);
+      setUser({ ...user, isAuthenticated: true });
       setOtpSent(false);
+      setOtpPhone(null);
       setAuthenticating(false);
-      setLoading(false);
 
       toast({
         title: "Login Successful",
         description: "Welcome to Gemini!",
       });
-    }, 1500);
+    } catch (error) {
+      toast({
+        title: "Verification failed",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
   };
 
-  const resendOtp = () => {
-    setCountdown(30);
-    toast({
-      title: "OTP Resent",
-      description: "A new verification code has been sent to your phone.",
-    });
+  const resendOtp = async () => {
+    if (!otpPhone) return;
+
+    try {
+      await requestOtp(otpPhone);
+      setCountdown(30);
+      toast({
+        title: "OTP Resent",
+        description: "A new verification code has been sent to your phone.",
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to resend OTP",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
   };
 
   const goBack = () => {
     setOtpSent(false);
+    setOtpPhone(null);
     setAuthenticating(false);
   };
 
@@ -96,7 +113,10 @@ export function OtpVerification() {
             Verify Phone Number
           </CardTitle>
           <CardDescription className="text-center">
-            Enter the 6-digit code sent to your phone
+            Enter the 6-digit code sent to{" "}
+            {otpPhone
+              ? `${otpPhone.countryCode} ${otpPhone.phoneNumber}`
+              : "your phone"}
           </CardDescription>
         </CardHeader>
         <form onSubmit={handleSubmit(onSubmit)}>
@@ -22,6 +22,7 @@ import {
 } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { useAppStore } from "@/store";
+import { requestOtp } from "@/lib/api";
 
 interface Country {
   name: string;
@@ -44,7 +45,7 @@ export function PhoneLogin() {
   const [countries, setCountries] = useState<Country[]>([]);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
-  const { setOtpSent, setAuthenticating } = useAppStore();
+  const { setOtpSent, setOtpPhone, setAuthenticating } = useAppStore();
 
   const {
     register,
@@ -102,15 +103,32 @@ export function PhoneLogin() {
     setLoading(true);
     setAuthenticating(true);
 
-    // Simulate OTP sending
-    setTimeout(() => {
+    try {
+      await requestOtp({
+        countryCode: data.countryCode,
+        phoneNumber: data.phoneNumber,
+      });
+
+      setOtpPhone({
+        countryCode: data.countryCode,
+        phoneNumber: data.phoneNumber,
+      });
       setOtpSent(true);
-      setLoading(false);
       toast({
         title: "OTP Sent",
         description: `Verification code sent to ${data.countryCode} ${data.phoneNumber}`,
       });
-    }, 1500);
+    } catch (error) {
+      setAuthenticating(false);
+      toast({
+        title: "Failed to send OTP",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
   };
 
   const selectedCountry = countries.find(
@@ -0,0 +1,453 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  CheckIcon,
+  CopyIcon,
+  HistoryIcon,
+  Loader2Icon,
+  SparklesIcon,
+  XIcon,
+} from "lucide-react";
+import { CANVAS_LIMITS, type GenerationSettings } from "@shared/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import {
+  addCanvasVersion,
+  createCanvas,
+  currentVersion,
+  diffCanvas,
+  draftCanvas,
+  isOverContentLimit,
+  proposeCanvasEdit,
+  renameCanvas,
+  type CanvasSelection,
+} from "@/lib/canvas";
+import { cn } from "@/lib/utils";
+import type { Canvas } from "@/store";
+
+function DiffView({
+  before,
+  after,
+  isCode,
+}: {
+  before: string;
+  after: string;
+  isCode: boolean;
+}) {
+  const changes = useMemo(
+    () => diffCanvas(before, after, isCode),
+    [before, after, isCode],
+  );
+
+  return (
+    <pre
+      className={cn(
+        "h-full overflow-auto whitespace-pre-wrap break-words p-4 text-sm",
+        isCode ? "font-mono" : "font-sans",
+      )}
+    >
+      {changes.map((change, index) => (
+        <span
+          key={index}
+          className={cn(
+            change.added &&
+              "bg-green-500/20 text-green-800 dark:text-green-300",
+            change.removed &&
+              "bg-red-500/20 text-red-800 line-through dark:text-red-300",
+          )}
+        >
+          {change.value}
+        </span>
+      ))}
+    </pre>
+  );
+}
+
+interface CanvasPanelProps {
+  // Unset until something is drafted
+  canvas?: Canvas;
+  // Used for the chat's drafts and edits
+  model?: string;
+  settings?: GenerationSettings;
+  onChange: (canvas: Canvas) => void;
+  onClose: () => void;
+}
+
+/**
+ * A document or code file edited next to the chat. Gemini drafts it, then
+ * rewrites the selection (or all of it) on request; its changes are shown
+ * as a diff to accept or reject. Every saved change is a new version.
+ */
+export function CanvasPanel({
+  canvas,
+  model,
+  settings,
+  onChange,
+  onClose,
+}: CanvasPanelProps) {
+  const { toast } = useToast();
+  const current = canvas && currentVersion(canvas);
+  const isCode = !!canvas?.language;
+
+  // The editor's text, saved as a version on request
+  const [draft, setDraft] = useState(current?.content ?? "");
+  const [selection, setSelection] = useState<CanvasSelection>();
+  const [instruction, setInstruction] = useState("");
+  const [isWorking, setWorking] = useState(false);
+  // Gemini's edit, waiting to be accepted or rejected
+  const [proposal, setProposal] = useState<{
+    content: string;
+    note: string;
+  } | null>(null);
+  // An older version being looked at
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // A new version, from here or another tab, replaces what is shown
+  useEffect(() => {
+    setDraft(current?.content ?? "");
+    setSelection(undefined);
+    setProposal(null);
+    setViewingId(null);
+  }, [current?.id]);
+
+  const viewing =
+    viewingId && viewingId !== current?.id
+      ? canvas?.versions.find((version) => version.id === viewingId)
+      : undefined;
+  const isDirty = !!current && draft !== current.content;
+  const isDraftTooLong = isOverContentLimit(draft);
+
+  const fail = (title: string, error: unknown) =>
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive",
+    });
+
+  const handleDraft = async () => {
+    if (!instruction.trim()) return;
+    setWorking(true);
+    try {
+      onChange(await draftCanvas(instruction.trim(), { model, settings }));
+      setInstruction("");
+    } catch (error) {
+      fail("Couldn't draft the canvas", error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleEdit = async () => {
+    if (!canvas || !instruction.trim()) return;
+    setWorking(true);
+    try {
+      const content = await proposeCanvasEdit(
+        canvas,
+        draft,
+        instruction.trim(),
+        selection,
+        { model, settings },
+      );
+      setProposal({ content, note: `Gemini: ${instruction.trim()}` });
+      setInstruction("");
+    } catch (error) {
+      fail("Couldn't edit the canvas", error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const accept = () => {
+    if (!canvas || !proposal || isOverContentLimit(proposal.content)) return;
+    onChange(addCanvasVersion(canvas, proposal.content, proposal.note));
+    setProposal(null);
+  };
+
+  const restore = () => {
+    if (!canvas || !viewing) return;
+    onChange(
+      addCanvasVersion(
+        canvas,
+        viewing.content,
+        `Restored from ${viewing.savedAt.toLocaleString()}`,
+      ),
+    );
+  };
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(viewing?.content ?? draft);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleSelect = (event: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = event.currentTarget;
+    setSelection(
+      selectionEnd > selectionStart
+        ? { start: selectionStart, end: selectionEnd }
+        : undefined,
+    );
+  };
+
+  return (
+    <div className="flex h-full flex-col bg-background">
+      <div className="flex items-center gap-2 border-b border-border p-3">
+        {canvas ? (
+          <Input
+            key={canvas.title}
+            defaultValue={canvas.title}
+            maxLength={CANVAS_LIMITS.titleLength}
+            onBlur={(e) => {
+              const title = e.target.value.trim();
+              if (title && title !== canvas.title) {
+                onChange(renameCanvas(canvas, title));
+              }
+            }}
+            className="h-8 border-transparent font-medium shadow-none hover:border-input"
+            aria-label="Canvas title"
+          />
+        ) : (
+          <h2 className="flex-1 font-medium">Canvas</h2>
+        )}
+        {canvas?.language && (
+          <Badge variant="secondary">{canvas.language}</Badge>
+        )}
+        {canvas && (
+          <>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  aria-label="Version history"
+                  title="Version history"
+                >
+                  <HistoryIcon className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="max-h-80 w-64">
+                <DropdownMenuLabel>Versions</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuRadioGroup
+                  value={viewing?.id ?? current?.id}
+                  onValueChange={setViewingId}
+                >
+                  {[...canvas.versions].reverse().map((version) => (
+                    <DropdownMenuRadioItem
+                      key={version.id}
+                      value={version.id}
+                      className="flex-col items-start"
+                    >
+                      <span className="line-clamp-1">{version.note}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {version.savedAt.toLocaleString()}
+                      </span>
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={copy}
+              aria-label="Copy canvas"
+              title="Copy"
+            >
+              {copied ? (
+                <CheckIcon className="h-4 w-4" />
+              ) : (
+                <CopyIcon className="h-4 w-4" />
+              )}
+            </Button>
+          </>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={onClose}
+          aria-label="Close canvas"
+          title="Close canvas"
+        >
+          <XIcon className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {!canvas ? (
+        <div className="flex flex-1 items-center justify-center p-6">
+          <div className="w-full max-w-md space-y-3 text-center">
+            <div className="text-4xl">🎨</div>
+            <p className="text-muted-foreground">
+              Describe a document or code file, and Gemini drafts it here for
+              you to edit together.
+            </p>
+            <Textarea
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="e.g. A Python script that renames photos by date"
+              className="min-h-[80px]"
+              disabled={isWorking}
+            />
+            <div className="flex justify-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() =>
+                  onChange(createCanvas("Untitled", "", { note: "Started" }))
+                }
+                disabled={isWorking}
+              >
+                Start blank
+              </Button>
+              <Button
+                onClick={handleDraft}
+                disabled={isWorking || !instruction.trim()}
+              >
+                {isWorking ? (
+                  <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <SparklesIcon className="mr-2 h-4 w-4" />
+                )}
+                Draft
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : proposal ? (
+        <>
+          <div className="min-h-0 flex-1">
+            <DiffView before={draft} after={proposal.content} isCode={isCode} />
+          </div>
+          <div className="flex items-center justify-end gap-2 border-t border-border p-3">
+            {isOverContentLimit(proposal.content) ? (
+              <span className="mr-auto text-sm text-destructive">
+                Too long to save: over{" "}
+                {CANVAS_LIMITS.contentLength.toLocaleString()} characters
+              </span>
+            ) : (
+              <span className="mr-auto line-clamp-1 text-sm text-muted-foreground">
+                {proposal.note}
+              </span>
+            )}
+            <Button variant="outline" onClick={() => setProposal(null)}>
+              Reject
+            </Button>
+            <Button
+              onClick={accept}
+              disabled={isOverContentLimit(proposal.content)}
+            >
+              Accept
+            </Button>
+          </div>
+        </>
+      ) : viewing ? (
+        <>
+          <pre
+            className={cn(
+              "min-h-0 flex-1 overflow-auto whitespace-pre-wrap break-words p-4 text-sm text-muted-foreground",
+              isCode ? "font-mono" : "font-sans",
+            )}
+          >
+            {viewing.content}
+          </pre>
+          <div className="flex items-center justify-end gap-2 border-t border-border p-3">
+            <span className="mr-auto line-clamp-1 text-sm text-muted-foreground">
+              {viewing.note} · {viewing.savedAt.toLocaleString()}
+            </span>
+            <Button variant="outline" onClick={() => setViewingId(null)}>
+              Back to current
+            </Button>
+            <Button onClick={restore}>Restore</Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onSelect={handleSelect}
+            className={cn(
+              "min-h-0 flex-1 resize-none rounded-none border-0 p-4 focus-visible:ring-0 focus-visible:ring-offset-0",
+              isCode && "font-mono text-sm",
+            )}
+            spellCheck={!isCode}
+            aria-label="Canvas content"
+          />
+          <div className="space-y-2 border-t border-border p-3">
+            {isDirty && (
+              <div className="flex items-center justify-end gap-2">
+                {isDraftTooLong ? (
+                  <span className="mr-auto text-sm text-destructive">
+                    Too long to save: {draft.length.toLocaleString()} /{" "}
+                    {CANVAS_LIMITS.contentLength.toLocaleString()} characters
+                  </span>
+                ) : (
+                  <span className="mr-auto text-sm text-muted-foreground">
+                    Unsaved changes
+                  </span>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraft(current.content)}
+                >
+                  Discard
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={isDraftTooLong}
+                  onClick={() =>
+                    onChange(addCanvasVersion(canvas, draft, "Edited by you"))
+                  }
+                >
+                  Save
+                </Button>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Input
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleEdit();
+                }}
+                placeholder={
+                  selection
+                    ? "Ask Gemini to change the selection"
+                    : `Ask Gemini to change the ${isCode ? "code" : "document"}`
+                }
+                disabled={isWorking}
+              />
+              <Button
+                size="icon"
+                onClick={handleEdit}
+                disabled={isWorking || !instruction.trim()}
+                aria-label="Ask Gemini"
+              >
+                {isWorking ? (
+                  <Loader2Icon className="h-4 w-4 animate-spin" />
+                ) : (
+                  <SparklesIcon className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,184 +1,218 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import type { GenerationSettings } from "@shared/api";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { SendIcon, ImageIcon, MenuIcon } from "lucide-react";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@/components/ui/resizable";
+import { ChatHeader } from "./ChatHeader";
 import { MessageList } from "./MessageList";
-import { useAppStore } from "@/store";
+import { Composer } from "./Composer";
+import { CanvasPanel } from "./CanvasPanel";
+import { useAppStore, type Canvas } from "@/store";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { useGems } from "@/hooks/use-gems";
+import { generateReply, stopGeneration } from "@/lib/generation";
+import { startResearch } from "@/lib/research";
+import {
+  addCanvasVersion,
+  createCanvas,
+  isOverContentLimit,
+  parseDraft,
+  titleFor,
+} from "@/lib/canvas";
+import { buildMessageTree, getBranch, getLatestLeaf } from "@/lib/message-tree";
 
 export function ChatArea() {
   const {
     getActiveChatroom,
     addMessage,
+    setCurrentLeaf,
+    setChatroomModel,
+    setChatroomSettings,
+    setChatroomCanvas,
     createChatroom,
-    isTyping,
-    setTyping,
-    isSidebarOpen,
-    setSidebarOpen,
+    generations,
   } = useAppStore();
 
   const activeChatroom = getActiveChatroom();
-  const [message, setMessage] = useState("");
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Replies generate per chatroom, so returning to a chat shows its own state
+  const generation = activeChatroom
+    ? generations[activeChatroom.id]
+    : undefined;
+  const isTyping =
+    generation?.status === "pending" || generation?.status === "streaming";
+  const streamingMessageId =
+    generation?.status === "streaming" ? generation.messageId : null;
+  // Picked on /chat/new, given to the chatroom created on first send
+  const [newChatModel, setNewChatModel] = useState<string>();
+  const [newChatSettings, setNewChatSettings] = useState<GenerationSettings>();
+  // While on, prompts start a Deep Research job instead of a plain reply
+  const [isResearchMode, setResearchMode] = useState(false);
+  // Stays open across chats, like the sidebar
+  const [isCanvasOpen, setCanvasOpen] = useState(false);
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const { gems } = useGems();
+  const gem = activeChatroom?.gemId
+    ? gems.find((gem) => gem.id === activeChatroom.gemId)
+    : undefined;
+
+  // Only the branch picked in the chatroom is shown and sent to the model
+  const tree = useMemo(
+    () => buildMessageTree(activeChatroom?.messages ?? []),
+    [activeChatroom?.messages],
+  );
+  const messages = useMemo(
+    () => getBranch(tree, activeChatroom?.currentLeafId),
+    [tree, activeChatroom?.currentLeafId],
+  );
 
-  const messages = activeChatroom?.messages || [];
-
-  // Reset component state when active chatroom changes
-  useEffect(() => {
-    setMessage("");
-    setImageFile(null);
-    setImagePreview(null);
-    setTyping(false);
-    if (textareaRef.current) {
-      textareaRef.current.style.height = "auto";
-    }
-  }, [activeChatroom?.id, setTyping]);
-
-  // Force re-render when activeChatroom changes
+  // Research mode is picked per chat; the composer is reset by its key
   useEffect(() => {
-    // This will force the component to re-evaluate
-  }, [activeChatroom]);
-
-  const handleSendMessage = async () => {
-    if (!message.trim() && !imageFile) return;
-
-    let chatroomId = activeChatroom?.id;
+    setResearchMode(false);
+  }, [activeChatroom?.id]);
+
+  // Create new chatroom if none exists; /chat/new is replaced in history
+  // so going back does not land on an empty chat
+  const ensureChatroom = () => {
+    if (activeChatroom) return activeChatroom.id;
+    const newChatroom = createChatroom({
+      model: newChatModel,
+      settings: newChatSettings,
+    });
+    navigate(`/chat/${newChatroom.id}`, { replace: true });
+    return newChatroom.id;
+  };
 
-    // Create new chatroom if none exists
-    if (!chatroomId) {
-      const newChatroom = createChatroom();
-      chatroomId = newChatroom.id;
-    }
+  // Sends what was typed, or a given prompt such as a Gem's starter
+  const handleSendMessage = async (text: string, imageUrl?: string) => {
+    const chatroomId = ensureChatroom();
 
     // Add user message
     const userMessage = {
-      content: message.trim(),
+      content: text,
       sender: "user" as const,
       timestamp: new Date(),
-      imageUrl: imagePreview || undefined,
+      imageUrl,
     };
 
-    addMessage(chatroomId, userMessage);
+    const sent = addMessage(chatroomId, userMessage);
 
-    // Clear input
-    setMessage("");
-    setImageFile(null);
-    setImagePreview(null);
-    if (textareaRef.current) {
-      textareaRef.current.style.height = "auto";
+    if (isResearchMode) {
+      setResearchMode(false);
+      await startResearch(chatroomId, sent.id);
+    } else {
+      await generateReply(chatroomId, sent.id);
     }
+  };
 
-    // Simulate AI typing
-    setTyping(true);
+  const handleCanvasChange = (canvas: Canvas) =>
+    setChatroomCanvas(ensureChatroom(), canvas);
+
+  // A reply becomes the canvas, or its next version if there is one
+  const handleOpenInCanvas = (messageId: string) => {
+    const reply = messages.find((msg) => msg.id === messageId);
+    if (!activeChatroom || !reply) return;
+    const { content, language } = parseDraft(reply.content);
+    if (isOverContentLimit(content)) {
+      toast({
+        title: "Couldn't open in Canvas",
+        description: "The reply is too long for a canvas.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const canvas = activeChatroom.canvas
+      ? addCanvasVersion(activeChatroom.canvas, content, "From a reply")
+      : createCanvas(titleFor(content, activeChatroom.title), content, {
+          language,
+          note: "From a reply",
+        });
+    setChatroomCanvas(activeChatroom.id, canvas);
+    setCanvasOpen(true);
+  };
 
-    // Simulate AI response with throttling
-    setTimeout(
-      () => {
-        const aiResponses = [
-          "Hello there! How can I help you today?",
-          "That's an interesting question. Let me think about that...",
-          "I'd be happy to help you with that. Here's what I think:",
-          "Great question! Based on what you've shared, I would suggest:",
-          "I understand what you're asking. Here's my perspective:",
-          "Thanks for sharing that. Let me provide some insights:",
-        ];
+  // The chat, with the canvas beside it while open
+  const withCanvas = (chat: React.ReactNode) =>
+    isCanvasOpen ? (
+      <ResizablePanelGroup direction="horizontal">
+        <ResizablePanel defaultSize={50} minSize={30}>
+          {chat}
+        </ResizablePanel>
+        <ResizableHandle withHandle />
+        <ResizablePanel defaultSize={50} minSize={30}>
+          <CanvasPanel
+            key={activeChatroom?.id}
+            canvas={activeChatroom?.canvas}
+            model={activeChatroom?.model ?? newChatModel}
+            settings={activeChatroom?.settings ?? newChatSettings}
+            onChange={handleCanvasChange}
+            onClose={() => setCanvasOpen(false)}
+          />
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    ) : (
+      chat
+    );
 
-        const randomResponse =
-          aiResponses[Math.floor(Math.random() * aiResponses.length)];
+  const handleStop = () => {
+    if (activeChatroom) stopGeneration(activeChatroom.id);
+  };
 
-        const aiMessage = {
-          content: randomResponse,
-          sender: "ai" as const,
-          timestamp: new Date(),
-        };
+  // An edited prompt becomes a sibling of the original, starting a branch
+  const handleEditMessage = async (messageId: string, content: string) => {
+    const original = tree.byId.get(messageId);
+    if (!activeChatroom || !original || !content.trim()) return;
 
-        addMessage(chatroomId!, aiMessage);
-        setTyping(false);
-      },
-      1500 + Math.random() * 2000,
-    ); // Random delay between 1.5-3.5s
+    const edited = addMessage(activeChatroom.id, {
+      content: content.trim(),
+      sender: "user",
+      timestamp: new Date(),
+      imageUrl: original.imageUrl,
+      parentId: tree.parentOf.get(messageId) ?? null,
+    });
+    await generateReply(activeChatroom.id, edited.id);
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && !e.shiftKey) {
-      e.preventDefault();
-      handleSendMessage();
-    }
+  // Another draft for the same prompt; it joins the others as a sibling
+  const handleRegenerateMessage = async (messageId: string) => {
+    const promptId = tree.parentOf.get(messageId);
+    // The prompt may be in an older page that is not loaded
+    if (!activeChatroom || !promptId || !tree.byId.has(promptId)) return;
+    await generateReply(activeChatroom.id, promptId);
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (file.size > 5 * 1024 * 1024) {
-        toast({
-          title: "File too large",
-          description: "Please select an image smaller than 5MB",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      setImageFile(file);
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setImagePreview(e.target?.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
+  // Resends a failed prompt, or asks again for a reply that broke off
+  const handleRetry = () => {
+    const failed = messages[messages.length - 1];
+    if (!activeChatroom || failed?.status !== "failed") return;
 
-  const removeImage = () => {
-    setImageFile(null);
-    setImagePreview(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
+    const promptId =
+      failed.sender === "user" ? failed.id : tree.parentOf.get(failed.id);
+    if (!promptId || !tree.byId.has(promptId)) return;
+    generateReply(activeChatroom.id, promptId, { retry: true });
   };
 
-  const adjustTextareaHeight = () => {
-    if (textareaRef.current) {
-      textareaRef.current.style.height = "auto";
-      textareaRef.current.style.height = `${Math.min(
-        textareaRef.current.scrollHeight,
-        120,
-      )}px`;
-    }
+  const handleSelectBranch = (messageId: string) => {
+    if (!activeChatroom) return;
+    setCurrentLeaf(activeChatroom.id, getLatestLeaf(tree, messageId));
   };
 
   // Empty state when no active chatroom
   if (!activeChatroom) {
-    return (
+    return withCanvas(
       <div className="flex flex-col h-full">
-        {/* Header */}
-        <div className="p-4 border-b border-border bg-background">
-          <div className="flex items-center gap-3">
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={() => setSidebarOpen(!isSidebarOpen)}
-              className="lg:hidden"
-            >
-              <MenuIcon className="h-5 w-5" />
-            </Button>
-            <div className="flex items-center gap-2">
-              <Avatar className="h-8 w-8">
-                <AvatarFallback className="bg-primary text-primary-foreground">
-                  G
-                </AvatarFallback>
-              </Avatar>
-              <div>
-                <h2 className="font-medium">Gemini</h2>
-                <p className="text-xs text-muted-foreground">2.5 Flash</p>
-              </div>
-            </div>
-          </div>
-        </div>
+        <ChatHeader
+          model={newChatModel}
+          onModelChange={setNewChatModel}
+          settings={newChatSettings}
+          onSettingsChange={setNewChatSettings}
+        />
 
         {/* Empty state */}
         <div className="flex-1 flex items-center justify-center">
@@ -200,215 +234,84 @@ export function ChatArea() {
           </div>
         </div>
 
-        {/* Input area */}
-        <div className="p-4 border-t border-border">
-          <div className="max-w-4xl mx-auto">
-            {imagePreview && (
-              <div className="mb-3 relative inline-block">
-                <img
-                  src={imagePreview}
-                  alt="Preview"
-                  className="max-h-32 rounded-lg"
-                />
-                <Button
-                  size="icon"
-                  variant="destructive"
-                  className="absolute -top-2 -right-2 h-6 w-6"
-                  onClick={removeImage}
-                >
-                  ×
-                </Button>
-              </div>
-            )}
-
-            <div className="flex items-end gap-2">
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={() => fileInputRef.current?.click()}
-                className="mb-1"
-              >
-                <ImageIcon className="h-4 w-4" />
-              </Button>
-
-              <div className="flex-1 relative">
-                <Textarea
-                  ref={textareaRef}
-                  value={message}
-                  onChange={(e) => {
-                    setMessage(e.target.value);
-                    adjustTextareaHeight();
-                  }}
-                  onKeyPress={handleKeyPress}
-                  placeholder="Enter a prompt for Gemini"
-                  className="min-h-[44px] max-h-[120px] resize-none pr-12"
-                  rows={1}
-                />
-                <Button
-                  size="icon"
-                  onClick={handleSendMessage}
-                  disabled={!message.trim() && !imageFile}
-                  className="absolute right-2 bottom-2 h-8 w-8"
-                >
-                  <SendIcon className="h-4 w-4" />
-                </Button>
-              </div>
-            </div>
-
-            <div className="flex justify-center gap-4 mt-3">
-              <Button variant="ghost" size="sm" disabled>
-                <span className="mr-2">🔬</span>
-                Deep Research
-              </Button>
-              <Button variant="ghost" size="sm" disabled>
-                <span className="mr-2">🎨</span>
-                Canvas
-              </Button>
-            </div>
-          </div>
-
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept="image/*"
-            onChange={handleImageUpload}
-            className="hidden"
-          />
-        </div>
-      </div>
-    );
-  }
-
-  // Additional safety check to prevent race conditions during deletion
-  if (!activeChatroom) {
-    return (
-      <div className="flex flex-col h-full">
-        <div className="flex-1 flex items-center justify-center">
-          <p className="text-muted-foreground">No active chatroom</p>
-        </div>
-      </div>
+        <Composer
+          key={activeChatroom?.id}
+          isTyping={isTyping}
+          onSend={handleSendMessage}
+          onStop={handleStop}
+          isResearchMode={isResearchMode}
+          onResearchModeChange={setResearchMode}
+          isCanvasOpen={isCanvasOpen}
+          onCanvasOpenChange={setCanvasOpen}
+        />
+      </div>,
     );
   }
 
-  return (
+  return withCanvas(
     <div className="flex flex-col h-full">
-      {/* Header */}
-      <div className="p-4 border-b border-border bg-background">
-        <div className="flex items-center gap-3">
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => setSidebarOpen(!isSidebarOpen)}
-            className="lg:hidden"
-          >
-            <MenuIcon className="h-5 w-5" />
-          </Button>
-          <div className="flex items-center gap-2">
-            <Avatar className="h-8 w-8">
-              <AvatarFallback className="bg-primary text-primary-foreground">
-                G
-              </AvatarFallback>
-            </Avatar>
-            <div>
-              <h2 className="font-medium">Gemini</h2>
-              <p className="text-xs text-muted-foreground">2.5 Flash</p>
+      <ChatHeader
+        gem={gem}
+        model={activeChatroom.model}
+        onModelChange={(model) => setChatroomModel(activeChatroom.id, model)}
+        settings={activeChatroom.settings}
+        onSettingsChange={(settings) =>
+          setChatroomSettings(activeChatroom.id, settings)
+        }
+      />
+
+      {/* Messages; a Gem introduces itself until the chat starts */}
+      {gem && messages.length === 0 && !activeChatroom.hasOlderMessages ? (
+        <div className="flex-1 flex items-center justify-center p-4">
+          <div className="text-center max-w-md">
+            <div className="text-5xl mb-4">{gem.icon}</div>
+            <h3 className="text-xl font-semibold mb-2">{gem.name}</h3>
+            {gem.instructions && (
+              <p className="text-muted-foreground mb-6 line-clamp-3">
+                {gem.instructions}
+              </p>
+            )}
+            <div className="flex flex-wrap justify-center gap-2">
+              {gem.starterPrompts.map((prompt) => (
+                <Button
+                  key={prompt}
+                  variant="outline"
+                  size="sm"
+                  className="h-auto whitespace-normal py-2"
+                  onClick={() => handleSendMessage(prompt)}
+                >
+                  {prompt}
+                </Button>
+              ))}
             </div>
           </div>
         </div>
-      </div>
-
-      {/* Messages */}
-      {activeChatroom && (
+      ) : (
         <MessageList
           chatroomId={activeChatroom.id}
           messages={messages}
+          tree={tree}
           isTyping={isTyping}
+          streamingMessageId={streamingMessageId}
+          error={generation?.status === "error" ? generation.error : null}
+          onRetry={handleRetry}
+          onEditMessage={handleEditMessage}
+          onRegenerateMessage={handleRegenerateMessage}
+          onOpenInCanvas={handleOpenInCanvas}
+          onSelectBranch={handleSelectBranch}
         />
       )}
 
-      {/* Input area */}
-      <div className="p-4 border-t border-border">
-        <div className="max-w-4xl mx-auto">
-          {imagePreview && (
-            <div className="mb-3 relative inline-block">
-              <img
-                src={imagePreview}
-                alt="Preview"
-                className="max-h-32 rounded-lg"
-              />
-              <Button
-                size="icon"
-                variant="destructive"
-                className="absolute -top-2 -right-2 h-6 w-6"
-                onClick={removeImage}
-              >
-                ×
-              </Button>
-            </div>
-          )}
-
-          <div className="flex items-end gap-2">
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={() => fileInputRef.current?.click()}
-              className="mb-1"
-            >
-              <ImageIcon className="h-4 w-4" />
-            </Button>
-
-            <div className="flex-1 relative">
-              <Textarea
-                ref={textareaRef}
-                value={message}
-                onChange={(e) => {
-                  setMessage(e.target.value);
-                  adjustTextareaHeight();
-                }}
-                onKeyPress={handleKeyPress}
-                placeholder="Enter a prompt for Gemini"
-                className="min-h-[44px] max-h-[120px] resize-none pr-12"
-                rows={1}
-                disabled={isTyping}
-              />
-              <Button
-                size="icon"
-                onClick={handleSendMessage}
-                disabled={(!message.trim() && !imageFile) || isTyping}
-                className="absolute right-2 bottom-2 h-8 w-8"
-              >
-                <SendIcon className="h-4 w-4" />
-              </Button>
-            </div>
-          </div>
-
-          <div className="flex justify-center gap-4 mt-3">
-            <Button variant="ghost" size="sm" disabled>
-              <span className="mr-2">🔬</span>
-              Deep Research
-            </Button>
-            <Button variant="ghost" size="sm" disabled>
-              <span className="mr-2">🎨</span>
-              Canvas
-            </Button>
-          </div>
-        </div>
-
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept="image/*"
-          onChange={handleImageUpload}
-          className="hidden"
-        />
-      </div>
-    </div>
+      <Composer
+        key={activeChatroom?.id}
+        isTyping={isTyping}
+        onSend={handleSendMessage}
+        onStop={handleStop}
+        isResearchMode={isResearchMode}
+        onResearchModeChange={setResearchMode}
+        isCanvasOpen={isCanvasOpen}
+        onCanvasOpenChange={setCanvasOpen}
+      />
+    </div>,
   );
 }
-
-
-
-
-
-
-
@@ -0,0 +1,114 @@
+import { Fragment } from "react";
+import { ChevronDownIcon, MenuIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { GemDto, GenerationSettings } from "@shared/api";
+import { useAppStore } from "@/store";
+import { useModels } from "@/hooks/use-models";
+import { formatModelName } from "@/lib/utils";
+import { ChatSettingsSheet } from "./ChatSettingsSheet";
+
+interface ChatHeaderProps {
+  // Gem the chat was started with, shown in place of Gemini
+  gem?: GemDto;
+  // Model picked for the chat; the server's default when unset
+  model?: string;
+  onModelChange: (model: string) => void;
+  settings?: GenerationSettings;
+  onSettingsChange: (settings: GenerationSettings) => void;
+}
+
+export function ChatHeader({
+  gem,
+  model,
+  onModelChange,
+  settings,
+  onSettingsChange,
+}: ChatHeaderProps) {
+  const { isSidebarOpen, setSidebarOpen } = useAppStore();
+  const { models, defaultModel, isLoading } = useModels();
+  const selected = model ?? defaultModel;
+  const providers = [...new Set(models.map((option) => option.provider))];
+
+  return (
+    <div className="p-4 border-b border-border bg-background">
+      <div className="flex items-center gap-3">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setSidebarOpen(!isSidebarOpen)}
+          className="lg:hidden"
+        >
+          <MenuIcon className="h-5 w-5" />
+        </Button>
+        <div className="flex items-center gap-2">
+          <Avatar className="h-8 w-8">
+            {gem ? (
+              <AvatarFallback className="bg-muted text-lg">
+                {gem.icon}
+              </AvatarFallback>
+            ) : (
+              <AvatarFallback className="bg-primary text-primary-foreground">
+                G
+              </AvatarFallback>
+            )}
+          </Avatar>
+          <div>
+            <h2 className="font-medium">{gem?.name ?? "Gemini"}</h2>
+            <DropdownMenu>
+              <DropdownMenuTrigger
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground disabled:pointer-events-none"
+                disabled={models.length === 0}
+                aria-label="Choose model"
+              >
+                {selected
+                  ? formatModelName(selected)
+                  : isLoading
+                    ? "Loading models…"
+                    : "Default model"}
+                <ChevronDownIcon className="h-3 w-3" />
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuRadioGroup
+                  value={selected}
+                  onValueChange={onModelChange}
+                >
+                  {providers.map((provider, index) => (
+                    <Fragment key={provider}>
+                      {index > 0 && <DropdownMenuSeparator />}
+                      <DropdownMenuLabel className="text-xs font-normal capitalize text-muted-foreground">
+                        {provider}
+                      </DropdownMenuLabel>
+                      {models
+                        .filter((option) => option.provider === provider)
+                        .map((option) => (
+                          <DropdownMenuRadioItem
+                            key={option.id}
+                            value={option.id}
+                          >
+                            {formatModelName(option.id)}
+                          </DropdownMenuRadioItem>
+                        ))}
+                    </Fragment>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+        <div className="ml-auto">
+          <ChatSettingsSheet settings={settings} onSave={onSettingsChange} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,55 @@
+import { useEffect } from "react";
+import { useParams } from "react-router-dom";
 import { Sidebar } from "./Sidebar";
 import { ChatArea } from "./ChatArea";
+import { ChatNotFound } from "./ChatNotFound";
 import { useAppStore } from "@/store";
+import { setStorageQuotaHandler } from "@/store/storage";
+import { useChatSync } from "@/hooks/use-chat-sync";
+import { toast } from "@/hooks/use-toast";
 
+/**
+ * Renders /chat/new and /chat/:chatroomId. The URL decides which chat is
+ * open; the store's active chatroom follows it.
+ */
 export function ChatLayout() {
-  const { isSidebarOpen } = useAppStore();
+  const { chatroomId } = useParams();
+  const exists = useAppStore((state) =>
+    state.chatrooms.some((room) => room.id === chatroomId),
+  );
+  const setActiveChatroom = useAppStore((state) => state.setActiveChatroom);
+  const synced = useChatSync();
+
+  useEffect(() => {
+    setActiveChatroom(exists ? chatroomId : null);
+  }, [chatroomId, exists, setActiveChatroom]);
+
+  useEffect(() => {
+    setStorageQuotaHandler(() =>
+      toast({
+        title: "Browser storage is full",
+        description:
+          "Some images won't be kept on this device. Your chats are still saved to your account.",
+        variant: "destructive",
+      }),
+    );
+    return () => setStorageQuotaHandler(null);
+  }, []);
 
   return (
     <div className="h-screen flex bg-background overflow-hidden">
       <Sidebar />
       <div className="flex-1 flex flex-col lg:ml-0">
-        <ChatArea />
+        {!chatroomId || exists ? (
+          <ChatArea />
+        ) : synced ? (
+          <ChatNotFound />
+        ) : (
+          // The chat may only be on the server, which has not answered yet
+          <div className="flex-1 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,39 @@
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { MenuIcon, MessageSquareOffIcon } from "lucide-react";
+import { useAppStore } from "@/store";
+
+/**
+ * Shown in place of the chat area when the URL points at a chat that does
+ * not exist, e.g. one deleted in another tab or a stale bookmark
+ */
+export function ChatNotFound() {
+  const { isSidebarOpen, setSidebarOpen } = useAppStore();
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-border bg-background lg:hidden">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setSidebarOpen(!isSidebarOpen)}
+        >
+          <MenuIcon className="h-5 w-5" />
+        </Button>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center p-4">
+        <div className="text-center max-w-md">
+          <MessageSquareOffIcon className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="text-xl font-semibold mb-2">Chat not found</h3>
+          <p className="text-muted-foreground mb-6">
+            This chat doesn't exist or has been deleted.
+          </p>
+          <Button asChild>
+            <Link to="/chat/new">Start a new chat</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
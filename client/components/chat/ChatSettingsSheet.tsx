@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { SlidersHorizontalIcon } from "lucide-react";
+import { GENERATION_LIMITS, type GenerationSettings } from "@shared/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+
+const { temperature, topP, maxOutputTokens } = GENERATION_LIMITS;
+
+// Fields are edited as text; left empty, the model's default is used
+const optionalNumber = (
+  { min, max }: { min: number; max: number },
+  integer = false,
+) =>
+  z
+    .string()
+    .trim()
+    .refine(
+      (value) => {
+        if (value === "") return true;
+        const number = Number(value);
+        return (
+          Number.isFinite(number) &&
+          number >= min &&
+          number <= max &&
+          (!integer || Number.isInteger(number))
+        );
+      },
+      `Enter ${integer ? "a whole number" : "a number"} from ${min} to ${max}`,
+    );
+
+const settingsSchema = z.object({
+  systemInstruction: z
+    .string()
+    .max(
+      GENERATION_LIMITS.systemInstructionLength,
+      `Keep it under ${GENERATION_LIMITS.systemInstructionLength} characters`,
+    ),
+  temperature: optionalNumber(temperature),
+  topP: optionalNumber(topP),
+  maxOutputTokens: optionalNumber(maxOutputTokens, true),
+  // One per line
+  stopSequences: z
+    .string()
+    .refine(
+      (value) => toLines(value).length <= GENERATION_LIMITS.stopSequences,
+      `Use at most ${GENERATION_LIMITS.stopSequences} stop sequences`,
+    ),
+});
+
+type SettingsFormData = z.infer<typeof settingsSchema>;
+
+function toLines(value: string) {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function toFormData(settings: GenerationSettings = {}): SettingsFormData {
+  return {
+    systemInstruction: settings.systemInstruction ?? "",
+    temperature: settings.temperature?.toString() ?? "",
+    topP: settings.topP?.toString() ?? "",
+    maxOutputTokens: settings.maxOutputTokens?.toString() ?? "",
+    stopSequences: (settings.stopSequences ?? []).join("\n"),
+  };
+}
+
+function toSettings(data: SettingsFormData): GenerationSettings {
+  const number = (value: string) => (value ? Number(value) : undefined);
+  const stopSequences = toLines(data.stopSequences);
+  return {
+    systemInstruction: data.systemInstruction.trim() || undefined,
+    temperature: number(data.temperature),
+    topP: number(data.topP),
+    maxOutputTokens: number(data.maxOutputTokens),
+    stopSequences: stopSequences.length > 0 ? stopSequences : undefined,
+  };
+}
+
+interface ChatSettingsSheetProps {
+  settings?: GenerationSettings;
+  onSave: (settings: GenerationSettings) => void;
+}
+
+export function ChatSettingsSheet({
+  settings,
+  onSave,
+}: ChatSettingsSheetProps) {
+  const [open, setOpen] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<SettingsFormData>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: toFormData(settings),
+  });
+
+  // Start from the saved settings each time, dropping unsaved edits
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) reset(toFormData(settings));
+    setOpen(isOpen);
+  };
+
+  const onSubmit = (data: SettingsFormData) => {
+    onSave(toSettings(data));
+    setOpen(false);
+  };
+
+  const fieldError = (name: keyof SettingsFormData) =>
+    errors[name] && (
+      <p className="text-sm text-destructive">{errors[name].message}</p>
+    );
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Chat settings"
+          title="Chat settings"
+        >
+          <SlidersHorizontalIcon className="h-5 w-5" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Chat settings</SheetTitle>
+          <SheetDescription>
+            Apply to every reply in this chat. Leave a field empty to use the
+            model's default.
+          </SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="system-instruction">System instruction</Label>
+            <Textarea
+              {...register("systemInstruction")}
+              id="system-instruction"
+              placeholder="e.g. You are a concise assistant. Answer in French."
+              className="min-h-[120px]"
+            />
+            {fieldError("systemInstruction")}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="temperature">Temperature</Label>
+              <Input
+                {...register("temperature")}
+                id="temperature"
+                inputMode="decimal"
+                placeholder={`${temperature.min}–${temperature.max}`}
+              />
+              {fieldError("temperature")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="top-p">Top-p</Label>
+              <Input
+                {...register("topP")}
+                id="top-p"
+                inputMode="decimal"
+                placeholder={`${topP.min}–${topP.max}`}
+              />
+              {fieldError("topP")}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="max-output-tokens">Max output tokens</Label>
+            <Input
+              {...register("maxOutputTokens")}
+              id="max-output-tokens"
+              inputMode="numeric"
+              placeholder="Model default"
+            />
+            {fieldError("maxOutputTokens")}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stop-sequences">Stop sequences</Label>
+            <Textarea
+              {...register("stopSequences")}
+              id="stop-sequences"
+              placeholder="One per line"
+              rows={3}
+            />
+            {fieldError("stopSequences")}
+          </div>
+
+          <SheetFooter className="gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => reset(toFormData())}
+            >
+              Reset to defaults
+            </Button>
+            <Button type="submit">Save</Button>
+          </SheetFooter>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
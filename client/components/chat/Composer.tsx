@@ -0,0 +1,205 @@
+import { useRef, useState } from "react";
+import { SendIcon, ImageIcon, SquareIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+
+interface ComposerProps {
+  // A reply is being generated; it can be stopped but nothing sent meanwhile
+  isTyping: boolean;
+  onSend: (text: string, imageUrl?: string) => void;
+  onStop: () => void;
+  // Prompts start a Deep Research job instead of a plain reply
+  isResearchMode: boolean;
+  onResearchModeChange: (isResearchMode: boolean) => void;
+  isCanvasOpen: boolean;
+  onCanvasOpenChange: (isCanvasOpen: boolean) => void;
+}
+
+export function Composer({
+  isTyping,
+  onSend,
+  onStop,
+  isResearchMode,
+  onResearchModeChange,
+  isCanvasOpen,
+  onCanvasOpenChange,
+}: ComposerProps) {
+  const [message, setMessage] = useState("");
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Research needs a question to work from
+  const canSend = isResearchMode
+    ? !!message.trim()
+    : !!message.trim() || !!imageFile;
+
+  const handleSend = () => {
+    if (!canSend) return;
+    onSend(message.trim(), imagePreview || undefined);
+
+    // Clear input
+    setMessage("");
+    setImageFile(null);
+    setImagePreview(null);
+    if (textareaRef.current) {
+      textareaRef.current.style.height = "auto";
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      if (file.size > 5 * 1024 * 1024) {
+        toast({
+          title: "File too large",
+          description: "Please select an image smaller than 5MB",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setImageFile(file);
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        setImagePreview(e.target?.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const removeImage = () => {
+    setImageFile(null);
+    setImagePreview(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const adjustTextareaHeight = () => {
+    if (textareaRef.current) {
+      textareaRef.current.style.height = "auto";
+      textareaRef.current.style.height = `${Math.min(
+        textareaRef.current.scrollHeight,
+        120,
+      )}px`;
+    }
+  };
+
+  return (
+    <div className="p-4 border-t border-border">
+      <div className="max-w-4xl mx-auto">
+        {imagePreview && (
+          <div className="mb-3 relative inline-block">
+            <img
+              src={imagePreview}
+              alt="Preview"
+              className="max-h-32 rounded-lg"
+            />
+            <Button
+              size="icon"
+              variant="destructive"
+              className="absolute -top-2 -right-2 h-6 w-6"
+              onClick={removeImage}
+            >
+              ×
+            </Button>
+          </div>
+        )}
+
+        <div className="flex items-end gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => fileInputRef.current?.click()}
+            className="mb-1"
+          >
+            <ImageIcon className="h-4 w-4" />
+          </Button>
+
+          <div className="flex-1 relative">
+            <Textarea
+              ref={textareaRef}
+              value={message}
+              onChange={(e) => {
+                setMessage(e.target.value);
+                adjustTextareaHeight();
+              }}
+              onKeyPress={handleKeyPress}
+              placeholder={
+                isResearchMode
+                  ? "What should Gemini research?"
+                  : "Enter a prompt for Gemini"
+              }
+              className="min-h-[44px] max-h-[120px] resize-none pr-12"
+              rows={1}
+              disabled={isTyping}
+            />
+            {isTyping ? (
+              <Button
+                size="icon"
+                variant="secondary"
+                onClick={onStop}
+                className="absolute right-2 bottom-2 h-8 w-8"
+                aria-label="Stop generating"
+                title="Stop generating"
+              >
+                <SquareIcon className="h-4 w-4 fill-current" />
+              </Button>
+            ) : (
+              <Button
+                size="icon"
+                onClick={handleSend}
+                disabled={!canSend}
+                className="absolute right-2 bottom-2 h-8 w-8"
+              >
+                <SendIcon className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-center gap-4 mt-3">
+          <Button
+            variant={isResearchMode ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => onResearchModeChange(!isResearchMode)}
+            aria-pressed={isResearchMode}
+            title="Research a question in depth, with a cited report"
+          >
+            <span className="mr-2">🔬</span>
+            Deep Research
+          </Button>
+          <Button
+            variant={isCanvasOpen ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => onCanvasOpenChange(!isCanvasOpen)}
+            aria-pressed={isCanvasOpen}
+            title="Write a document or code file with Gemini"
+          >
+            <span className="mr-2">🎨</span>
+            Canvas
+          </Button>
+        </div>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleImageUpload}
+        className="hidden"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState, type ReactNode } from "react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import type { Message } from "@/store";
+
+interface DraftCarouselProps {
+  // Replies to the same prompt, oldest first
+  drafts: Message[];
+  selectedId: string;
+  // Called when the user flips to another draft
+  onSelect: (messageId: string) => void;
+  renderDraft: (draft: Message) => ReactNode;
+}
+
+export function DraftCarousel({
+  drafts,
+  selectedId,
+  onSelect,
+  renderDraft,
+}: DraftCarouselProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const selectedIndex = drafts.findIndex((draft) => draft.id === selectedId);
+
+  // Follow the draft picked elsewhere, e.g. one that was just regenerated
+  useEffect(() => {
+    if (
+      api &&
+      selectedIndex >= 0 &&
+      api.selectedScrollSnap() !== selectedIndex
+    ) {
+      api.scrollTo(selectedIndex);
+    }
+  }, [api, selectedIndex, drafts.length]);
+
+  useEffect(() => {
+    if (!api) return;
+    const handleSelect = () => {
+      const draft = drafts[api.selectedScrollSnap()];
+      if (draft && draft.id !== selectedId) onSelect(draft.id);
+    };
+    api.on("select", handleSelect);
+    return () => {
+      api.off("select", handleSelect);
+    };
+  }, [api, drafts, selectedId, onSelect]);
+
+  return (
+    <Carousel
+      setApi={setApi}
+      opts={{ startIndex: Math.max(selectedIndex, 0) }}
+      className="space-y-1"
+    >
+      <CarouselContent className="items-start">
+        {drafts.map((draft) => (
+          // Room for the bubble's copy button, which would be clipped
+          <CarouselItem key={draft.id} className="pt-2 pr-2">
+            {renderDraft(draft)}
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+        <CarouselPrevious
+          variant="ghost"
+          className="static h-6 w-6 translate-y-0"
+        />
+        <span className="tabular-nums">
+          Draft {selectedIndex + 1}/{drafts.length}
+        </span>
+        <CarouselNext
+          variant="ghost"
+          className="static h-6 w-6 translate-y-0"
+        />
+      </div>
+    </Carousel>
+  );
+}
@@ -0,0 +1,46 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { describe, expect, it } from "vitest";
+import { Markdown } from "./Markdown";
+
+const render = (content: string, isStreaming = false) =>
+  renderToStaticMarkup(createElement(Markdown, { content, isStreaming }));
+
+describe("Markdown", () => {
+  it("should render formatting, tables and code", () => {
+    const html = render(
+      "**bold**\n\n| a | b |\n| - | - |\n| 1 | 2 |\n\n```js\nconst x = 1;\n```",
+    );
+
+    expect(html).toContain("<strong>bold</strong>");
+    expect(html).toContain("<table>");
+    expect(html).toContain("<span>js</span>");
+  });
+
+  it("should drop raw HTML", () => {
+    const html = render(
+      'Hi <script>alert(1)</script>\n\n<img src="x" onerror="alert(1)">',
+    );
+
+    expect(html).toContain("Hi");
+    expect(html).not.toContain("<script");
+    expect(html).not.toContain("<img");
+    expect(html).not.toContain("onerror");
+  });
+
+  it("should remove unsafe link protocols", () => {
+    const html = render("[x](javascript:alert(1)) [y](https://example.com)");
+
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain('href="https://example.com"');
+  });
+
+  it("should put the streaming cursor at the end of the last block", () => {
+    const html = render("First\n\n- one\n- two", true);
+
+    expect(html).toMatch(
+      /<li>two<span class="[^"]*animate-pulse"><\/span><\/li>/,
+    );
+    expect(html.match(/animate-pulse/g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,168 @@
+import { memo, useState, type ReactNode } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import { CheckIcon, CopyIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import "katex/dist/katex.min.css";
+
+// The parts of a syntax tree node the code block reads
+interface TreeNode {
+  type: string;
+  value?: string;
+  tagName?: string;
+  properties?: { className?: unknown };
+  children?: TreeNode[];
+}
+
+function textOf(node: TreeNode): string {
+  if (node.type === "text") return node.value ?? "";
+  return (node.children ?? []).map(textOf).join("");
+}
+
+function languageOf(code: TreeNode | undefined) {
+  const classes = code?.properties?.className;
+  const language = Array.isArray(classes)
+    ? classes.find(
+        (name): name is string =>
+          typeof name === "string" && name.startsWith("language-"),
+      )
+    : undefined;
+  return language?.slice("language-".length);
+}
+
+const CURSOR: TreeNode = {
+  type: "element",
+  tagName: "span",
+  properties: {
+    className: [
+      "inline-block",
+      "w-2",
+      "h-4",
+      "ml-0.5",
+      "align-text-bottom",
+      "bg-current",
+      "animate-pulse",
+    ],
+  },
+  children: [],
+};
+
+const isKatex = (node: TreeNode) =>
+  Array.isArray(node.properties?.className) &&
+  node.properties.className.some(
+    (name) => typeof name === "string" && name.startsWith("katex"),
+  );
+
+// Puts the streaming cursor at the end of the last block's text, so it
+// follows the reply instead of sitting on a line of its own
+function rehypeCursor() {
+  return (tree: TreeNode) => {
+    let parent = tree;
+    for (;;) {
+      const last = (parent.children ?? [])
+        .filter((child) => child.type !== "text" || child.value?.trim())
+        .at(-1);
+      if (last?.type !== "element" || isKatex(last)) break;
+      parent = last;
+    }
+    parent.children = [...(parent.children ?? []), CURSOR];
+  };
+}
+
+const rehypePlugins = [rehypeKatex, rehypeHighlight];
+
+function CodeBlock({
+  node,
+  children,
+}: {
+  node?: TreeNode;
+  children: ReactNode;
+}) {
+  const [copied, setCopied] = useState(false);
+  const code = node?.children?.find((child) => child.tagName === "code");
+  const language = languageOf(code);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(code ? textOf(code) : "");
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="not-prose my-3 overflow-hidden rounded-lg border bg-background text-left">
+      <div className="flex items-center justify-between border-b px-3 py-1 text-xs text-muted-foreground">
+        <span>{language ?? "text"}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 gap-1 px-2 text-xs"
+          onClick={copy}
+        >
+          {copied ? (
+            <CheckIcon className="h-3 w-3" />
+          ) : (
+            <CopyIcon className="h-3 w-3" />
+          )}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+      </div>
+      <pre className="overflow-x-auto p-3 text-sm">{children}</pre>
+    </div>
+  );
+}
+
+const components: Components = {
+  pre: ({ node, children }) => (
+    <CodeBlock node={node as TreeNode}>{children}</CodeBlock>
+  ),
+  a: ({ node: _node, ...props }) => (
+    <a {...props} target="_blank" rel="noopener noreferrer" />
+  ),
+  table: ({ node: _node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props} />
+    </div>
+  ),
+};
+
+interface MarkdownProps {
+  content: string;
+  // Shows a blinking cursor after the text
+  isStreaming?: boolean;
+  className?: string;
+}
+
+/**
+ * Renders model output as GitHub-flavored Markdown with math and
+ * highlighted code. Raw HTML in the text is dropped rather than rendered,
+ * and unsafe link protocols are removed.
+ */
+export const Markdown = memo(function Markdown({
+  content,
+  isStreaming,
+  className,
+}: MarkdownProps) {
+  return (
+    <div
+      className={cn(
+        "prose prose-sm dark:prose-invert max-w-none break-words",
+        className,
+      )}
+    >
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={
+          isStreaming ? [...rehypePlugins, rehypeCursor] : rehypePlugins
+        }
+        components={components}
+        skipHtml
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+});
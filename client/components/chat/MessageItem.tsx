@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  CopyIcon,
+  PanelRightIcon,
+  PencilIcon,
+  RefreshCwIcon,
+  ThumbsUpIcon,
+  ThumbsDownIcon,
+  ShareIcon,
+} from "lucide-react";
+import { cn, formatModelName } from "@/lib/utils";
+import type { Message } from "@/store";
+import { DraftCarousel } from "./DraftCarousel";
+import { Markdown } from "./Markdown";
+import { ResearchTimeline } from "./ResearchTimeline";
+
+function MessageBubble({
+  chatroomId,
+  message,
+  isStreaming,
+}: {
+  chatroomId: string;
+  message: Message;
+  isStreaming: boolean;
+}) {
+  const copyMessage = (content: string) => {
+    navigator.clipboard.writeText(content);
+  };
+
+  return (
+    <div
+      className={cn(
+        "inline-block p-3 rounded-2xl relative",
+        message.sender === "user"
+          ? "bg-primary text-primary-foreground"
+          : "bg-muted",
+      )}
+    >
+      {message.imageUrl && (
+        <img
+          src={message.imageUrl}
+          alt="Uploaded"
+          className="max-w-full rounded-lg mb-2"
+        />
+      )}
+      {message.researchJobId && (
+        <ResearchTimeline chatroomId={chatroomId} message={message} />
+      )}
+      {message.sender === "ai" ? (
+        <Markdown content={message.content} isStreaming={isStreaming} />
+      ) : (
+        <p className="whitespace-pre-wrap">{message.content}</p>
+      )}
+
+      {/* Copy button on hover */}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="absolute -top-2 -right-2 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+        onClick={() => copyMessage(message.content)}
+      >
+        <CopyIcon className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+interface MessageItemProps {
+  chatroomId: string;
+  message: Message;
+  isStreaming: boolean;
+  // The message and its alternative versions, oldest first
+  siblings: Message[];
+  onSelectSibling: (messageId: string) => void;
+  // Resends the prompt with new content; unset while a reply is generated
+  onEdit?: (content: string) => void;
+  // Asks for another draft of this reply; unset while one is generated
+  onRegenerate?: () => void;
+  // Copies the reply into the canvas; unset until it has finished
+  onOpenInCanvas?: () => void;
+}
+
+export function MessageItem({
+  chatroomId,
+  message,
+  isStreaming,
+  siblings,
+  onSelectSibling,
+  onEdit,
+  onRegenerate,
+  onOpenInCanvas,
+}: MessageItemProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const siblingIndex = siblings.findIndex((msg) => msg.id === message.id);
+  // Drafts of a reply are flipped through in place; edited prompts get arrows
+  const showDrafts = message.sender === "ai" && siblings.length > 1;
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!onEdit || !draft.trim()) return;
+    setEditing(false);
+    if (draft.trim() !== message.content) onEdit(draft);
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex gap-3",
+        message.sender === "user" ? "justify-end" : "justify-start",
+      )}
+    >
+      {message.sender === "ai" && (
+        <Avatar className="h-8 w-8 mt-1">
+          <AvatarFallback className="bg-primary text-primary-foreground">
+            G
+          </AvatarFallback>
+        </Avatar>
+      )}
+
+      <div
+        className={cn(
+          "max-w-[80%] space-y-2 group",
+          message.sender === "user" && "text-right",
+          (editing || showDrafts) && "w-full",
+        )}
+      >
+        {editing ? (
+          <div className="space-y-2 text-left">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                } else if (e.key === "Escape") {
+                  setEditing(false);
+                }
+              }}
+              className="min-h-[80px] resize-none"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setEditing(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={submitEdit}
+                disabled={!onEdit || !draft.trim()}
+              >
+                Send
+              </Button>
+            </div>
+          </div>
+        ) : showDrafts ? (
+          <DraftCarousel
+            drafts={siblings}
+            selectedId={message.id}
+            onSelect={onSelectSibling}
+            renderDraft={(draft) => (
+              <MessageBubble
+                chatroomId={chatroomId}
+                message={draft}
+                isStreaming={isStreaming && draft.id === message.id}
+              />
+            )}
+          />
+        ) : (
+          <MessageBubble
+            chatroomId={chatroomId}
+            message={message}
+            isStreaming={isStreaming}
+          />
+        )}
+
+        <div
+          className={cn(
+            "flex items-center gap-2 text-xs text-muted-foreground",
+            message.sender === "user" && "justify-end",
+          )}
+        >
+          {siblings.length > 1 && !showDrafts && (
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={siblingIndex <= 0}
+                onClick={() => onSelectSibling(siblings[siblingIndex - 1].id)}
+                aria-label="Previous version"
+              >
+                <ChevronLeftIcon className="h-3 w-3" />
+              </Button>
+              <span className="tabular-nums">
+                {siblingIndex + 1}/{siblings.length}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={siblingIndex >= siblings.length - 1}
+                onClick={() => onSelectSibling(siblings[siblingIndex + 1].id)}
+                aria-label="Next version"
+              >
+                <ChevronRightIcon className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+          <span>
+            {typeof message.timestamp === "string"
+              ? new Date(message.timestamp).toLocaleTimeString()
+              : message.timestamp.toLocaleTimeString()}
+          </span>
+          {message.sender === "ai" && message.model && (
+            <span>{formatModelName(message.model)}</span>
+          )}
+          {message.status === "pending" && message.sender === "user" && (
+            <span>Sending…</span>
+          )}
+          {message.status === "failed" && (
+            <span className="text-destructive">
+              {message.sender === "user" ? "Not sent" : "Interrupted"}
+            </span>
+          )}
+          {message.status === "stopped" && (
+            <span className="italic">Stopped</span>
+          )}
+          {message.sender === "user" && !editing && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+              onClick={startEditing}
+              disabled={!onEdit}
+              aria-label="Edit message"
+            >
+              <PencilIcon className="h-3 w-3" />
+            </Button>
+          )}
+          {message.sender === "ai" && (
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={onRegenerate}
+                disabled={!onRegenerate}
+                aria-label="Regenerate"
+                title="Regenerate"
+              >
+                <RefreshCwIcon className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={onOpenInCanvas}
+                disabled={!onOpenInCanvas}
+                aria-label="Open in Canvas"
+                title="Open in Canvas"
+              >
+                <PanelRightIcon className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-6 w-6" disabled>
+                <ThumbsUpIcon className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-6 w-6" disabled>
+                <ThumbsDownIcon className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-6 w-6" disabled>
+                <ShareIcon className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {message.sender === "user" && (
+        <Avatar className="h-8 w-8 mt-1">
+          <AvatarFallback>U</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+}
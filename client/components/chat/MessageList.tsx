@@ -1,129 +1,128 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
-import {
-  CopyIcon,
-  ThumbsUpIcon,
-  ThumbsDownIcon,
-  ShareIcon,
-} from "lucide-react";
-import { useAppStore } from "@/store";
+import { RotateCwIcon } from "lucide-react";
+import { useMessageHistory } from "@/hooks/use-message-history";
 import { cn } from "@/lib/utils";
+import { getSiblings, type MessageTree } from "@/lib/message-tree";
 import type { Message } from "@/store";
+import { MessageItem } from "./MessageItem";
 
-const MESSAGES_PER_PAGE = 20;
-
-// Generate dummy historical messages for demonstration
-const generateDummyMessages = (chatroomId: string, page: number): Message[] => {
-  const messages: Message[] = [];
-  const startIndex = page * MESSAGES_PER_PAGE;
-
-  for (let i = 0; i < MESSAGES_PER_PAGE; i++) {
-    const messageIndex = startIndex + i;
-    const isUser = messageIndex % 3 === 0; // Every 3rd message is from user
-
-    // Create truly unique ID with timestamp to avoid collisions
-    const uniqueId = `dummy-${chatroomId}-page${page}-${messageIndex}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
-    messages.push({
-      id: uniqueId,
-      content: isUser
-        ? `This is user message #${messageIndex + 1}. Here's a question or statement from the user.`
-        : `This is AI response #${messageIndex + 1}. Here's a helpful response from Gemini with some detailed information.`,
-      sender: isUser ? "user" : "ai",
-      timestamp: new Date(Date.now() - (messageIndex + 1) * 60000), // 1 minute apart
-    });
-  }
-
-  return messages.reverse(); // Oldest first
-};
+// Within this distance of the bottom, the list follows new content
+const STICK_TO_BOTTOM_THRESHOLD = 80;
 
 interface MessageListProps {
   chatroomId: string;
+  // The branch being shown
   messages: Message[];
+  tree: MessageTree;
   isTyping: boolean;
+  streamingMessageId?: string | null;
+  // Why the last reply failed, while that is known
+  error?: string | null;
+  onRetry: () => void;
+  onEditMessage: (messageId: string, content: string) => void;
+  onRegenerateMessage: (messageId: string) => void;
+  onOpenInCanvas: (messageId: string) => void;
+  onSelectBranch: (messageId: string) => void;
 }
 
 export function MessageList({
   chatroomId,
   messages,
+  tree,
   isTyping,
+  streamingMessageId,
+  error,
+  onRetry,
+  onEditMessage,
+  onRegenerateMessage,
+  onOpenInCanvas,
+  onSelectBranch,
 }: MessageListProps) {
-  const [loadingOlder, setLoadingOlder] = useState(false);
-  const [hasMoreMessages, setHasMoreMessages] = useState(true);
-  const [page, setPage] = useState(0);
-  const [olderMessages, setOlderMessages] = useState<Message[]>([]);
-
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const stickToBottomRef = useRef(true);
+  // Height of whatever sits above the list inside the scroller
+  const [scrollMargin, setScrollMargin] = useState(0);
 
-  const allMessages = [...olderMessages, ...messages];
-
-  // Reset state when chatroom changes
-  useEffect(() => {
-    setOlderMessages([]);
-    setPage(0);
-    // Only show "load older" option if there are existing messages
-    setHasMoreMessages(messages.length > 0);
-    setLoadingOlder(false);
-  }, [chatroomId, messages.length]);
-
-  // Auto-scroll to bottom when new messages arrive (not when loading older)
-  useEffect(() => {
-    if (scrollAreaRef.current && !loadingOlder) {
-      const scrollContainer = scrollAreaRef.current.querySelector(
+  const getViewport = useCallback(
+    () =>
+      scrollAreaRef.current?.querySelector<HTMLElement>(
         "[data-radix-scroll-area-viewport]",
-      );
-      if (scrollContainer) {
-        scrollContainer.scrollTop = scrollContainer.scrollHeight;
-      }
-    }
-  }, [messages, isTyping, loadingOlder]);
-
-  const loadOlderMessages = useCallback(async () => {
-    if (loadingOlder || !hasMoreMessages) return;
+      ) ?? null,
+    [],
+  );
+  const {
+    hasMore: hasMoreMessages,
+    loading: loadingOlder,
+    error: historyError,
+    loadOlder: loadOlderMessages,
+  } = useMessageHistory(chatroomId, getViewport);
 
-    // Don't load dummy messages for new/empty chats
-    if (messages.length === 0) {
-      setHasMoreMessages(false);
-      return;
-    }
+  // Only messages near the viewport are mounted; rows are measured once
+  // rendered, and sizes are cached by message id so prepending keeps them
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: getViewport,
+    estimateSize: () => 120,
+    getItemKey: (index) => messages[index].id,
+    overscan: 6,
+    scrollMargin,
+  });
 
-    // Safety limit: don't load more than 10 pages (200 messages)
-    if (page >= 10) {
-      setHasMoreMessages(false);
-      return;
-    }
+  useLayoutEffect(() => {
+    const offset = listRef.current?.offsetTop ?? 0;
+    if (offset !== scrollMargin) setScrollMargin(offset);
+  });
 
-    setLoadingOlder(true);
+  const scrollToBottom = useCallback(() => {
+    const viewport = getViewport();
+    if (viewport) viewport.scrollTop = viewport.scrollHeight;
+  }, [getViewport]);
 
-    // Simulate API call delay
-    setTimeout(() => {
-      const newMessages = generateDummyMessages(chatroomId, page);
+  useLayoutEffect(() => {
+    stickToBottomRef.current = true;
+    scrollToBottom();
+  }, [chatroomId, scrollToBottom]);
 
-      if (newMessages.length < MESSAGES_PER_PAGE || page >= 9) {
-        setHasMoreMessages(false);
-      }
+  // Sending a message always jumps to it; replies and the typing indicator
+  // only scroll if the user has not scrolled up to read
+  const lastMessage = messages[messages.length - 1];
+  useLayoutEffect(() => {
+    if (lastMessage?.sender === "user") stickToBottomRef.current = true;
+    if (stickToBottomRef.current) scrollToBottom();
+  }, [lastMessage, isTyping, scrollToBottom]);
 
-      // Use functional update to prevent race conditions
-      setOlderMessages((prev) => {
-        // Check for duplicate IDs to prevent duplicates
-        const existingIds = new Set(prev.map((msg) => msg.id));
-        const filteredNewMessages = newMessages.filter(
-          (msg) => !existingIds.has(msg.id),
-        );
-        return [...filteredNewMessages, ...prev];
-      });
+  // Rows grow after mounting (measurement, images, streamed text), so stay
+  // pinned to the bottom while that happens
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
 
-      setPage((prev) => prev + 1);
-      setLoadingOlder(false);
-    }, 1000);
-  }, [chatroomId, loadingOlder, hasMoreMessages, page]);
+    const observer = new ResizeObserver(() => {
+      if (stickToBottomRef.current) scrollToBottom();
+    });
+    observer.observe(content);
+    return () => observer.disconnect();
+  }, [scrollToBottom]);
 
   const handleScroll = useCallback(
     (event: React.UIEvent<HTMLDivElement>) => {
-      const { scrollTop } = event.currentTarget;
+      const { scrollTop, scrollHeight, clientHeight } =
+        event.target as HTMLElement;
+      stickToBottomRef.current =
+        scrollHeight - scrollTop - clientHeight < STICK_TO_BOTTOM_THRESHOLD;
 
       // Load more messages when scrolled to top
       if (scrollTop === 0 && hasMoreMessages && !loadingOlder) {
@@ -133,20 +132,21 @@ export function MessageList({
     [hasMoreMessages, loadingOlder, loadOlderMessages],
   );
 
-  const copyMessage = (content: string) => {
-    navigator.clipboard.writeText(content);
-  };
-
   return (
     <ScrollArea
       ref={scrollAreaRef}
       className="flex-1 p-4"
       onScrollCapture={handleScroll}
     >
-      <div className="max-w-4xl mx-auto space-y-6">
+      <div ref={contentRef} className="relative max-w-4xl mx-auto space-y-6">
         {/* Load older messages button/indicator */}
         {hasMoreMessages && (
           <div className="text-center py-4">
+            {historyError && !loadingOlder && (
+              <p className="text-sm text-destructive mb-2">
+                Couldn't load older messages: {historyError}
+              </p>
+            )}
             {loadingOlder ? (
               <div className="space-y-2">
                 <div className="flex justify-center">
@@ -158,7 +158,7 @@ export function MessageList({
               </div>
             ) : (
               <Button variant="outline" size="sm" onClick={loadOlderMessages}>
-                Load older messages
+                {historyError ? "Try again" : "Load older messages"}
               </Button>
             )}
           </div>
@@ -179,104 +179,81 @@ export function MessageList({
           </div>
         )}
 
-        {/* Messages */}
-        {allMessages.map((msg, index) => (
-          <div
-            key={`${msg.id}-${index}`}
-            className={cn(
-              "flex gap-3",
-              msg.sender === "user" ? "justify-end" : "justify-start",
-            )}
-          >
-            {msg.sender === "ai" && (
-              <Avatar className="h-8 w-8 mt-1">
-                <AvatarFallback className="bg-primary text-primary-foreground">
-                  G
-                </AvatarFallback>
-              </Avatar>
-            )}
-
-            <div
-              className={cn(
-                "max-w-[80%] space-y-2 group",
-                msg.sender === "user" && "text-right",
-              )}
-            >
+        {/* Messages; only the rows near the viewport are rendered */}
+        <div
+          ref={listRef}
+          className="relative w-full"
+          style={{ height: virtualizer.getTotalSize() }}
+        >
+          {virtualizer.getVirtualItems().map((item) => {
+            const message = messages[item.index];
+            return (
               <div
+                key={item.key}
+                ref={virtualizer.measureElement}
+                data-index={item.index}
                 className={cn(
-                  "inline-block p-3 rounded-2xl relative",
-                  msg.sender === "user"
-                    ? "bg-primary text-primary-foreground"
-                    : "bg-muted",
+                  "absolute top-0 left-0 w-full",
+                  item.index > 0 && "pt-6",
                 )}
+                style={{
+                  transform: `translateY(${item.start - scrollMargin}px)`,
+                }}
               >
-                {msg.imageUrl && (
-                  <img
-                    src={msg.imageUrl}
-                    alt="Uploaded"
-                    className="max-w-full rounded-lg mb-2"
-                  />
-                )}
-                <p className="whitespace-pre-wrap">{msg.content}</p>
-
-                {/* Copy button on hover */}
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="absolute -top-2 -right-2 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
-                  onClick={() => copyMessage(msg.content)}
-                >
-                  <CopyIcon className="h-3 w-3" />
-                </Button>
+                <MessageItem
+                  chatroomId={chatroomId}
+                  message={message}
+                  isStreaming={message.id === streamingMessageId}
+                  siblings={getSiblings(tree, message.id)}
+                  onSelectSibling={onSelectBranch}
+                  onEdit={
+                    message.sender === "user" && !isTyping
+                      ? (content) => onEditMessage(message.id, content)
+                      : undefined
+                  }
+                  onRegenerate={
+                    message.sender === "ai" && !isTyping
+                      ? () => onRegenerateMessage(message.id)
+                      : undefined
+                  }
+                  onOpenInCanvas={
+                    message.sender === "ai" &&
+                    message.content &&
+                    message.status !== "pending"
+                      ? () => onOpenInCanvas(message.id)
+                      : undefined
+                  }
+                />
               </div>
+            );
+          })}
+        </div>
 
-              <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                <span>
-                  {typeof msg.timestamp === "string"
-                    ? new Date(msg.timestamp).toLocaleTimeString()
-                    : msg.timestamp.toLocaleTimeString()}
-                </span>
-                {msg.sender === "ai" && (
-                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6"
-                      disabled
-                    >
-                      <ThumbsUpIcon className="h-3 w-3" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6"
-                      disabled
-                    >
-                      <ThumbsDownIcon className="h-3 w-3" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6"
-                      disabled
-                    >
-                      <ShareIcon className="h-3 w-3" />
-                    </Button>
-                  </div>
-                )}
-              </div>
+        {/* Error bubble for a prompt that got no reply or a broken-off one */}
+        {!isTyping && lastMessage?.status === "failed" && (
+          <div className="flex gap-3">
+            <Avatar className="h-8 w-8 mt-1">
+              <AvatarFallback className="bg-primary text-primary-foreground">
+                G
+              </AvatarFallback>
+            </Avatar>
+            <div className="border border-destructive/50 p-3 rounded-2xl space-y-2">
+              <p className="text-sm text-destructive">
+                {lastMessage.sender === "user"
+                  ? "Couldn't get a response."
+                  : "The response was interrupted."}
+                {error && ` ${error}`}
+              </p>
+              <Button variant="outline" size="sm" onClick={onRetry}>
+                <RotateCwIcon className="mr-2 h-3 w-3" />
+                Retry
+              </Button>
             </div>
-
-            {msg.sender === "user" && (
-              <Avatar className="h-8 w-8 mt-1">
-                <AvatarFallback>U</AvatarFallback>
-              </Avatar>
-            )}
           </div>
-        ))}
+        )}
 
-        {/* Typing indicator */}
-        {isTyping && (
+        {/* Typing indicator, until the first streamed chunk arrives */}
+        {isTyping && !streamingMessageId && (
           <div className="flex gap-3">
             <Avatar className="h-8 w-8 mt-1">
               <AvatarFallback className="bg-primary text-primary-foreground">
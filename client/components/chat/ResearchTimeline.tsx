@@ -0,0 +1,174 @@
+import { useEffect } from "react";
+import {
+  CheckCircle2Icon,
+  CircleIcon,
+  Loader2Icon,
+  SquareIcon,
+  XCircleIcon,
+} from "lucide-react";
+import type { ResearchStepDto } from "@shared/api";
+import { Button } from "@/components/ui/button";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { ApiError } from "@/lib/api";
+import { finishResearch } from "@/lib/research";
+import { useCancelResearch, useResearchJob } from "@/hooks/use-research-job";
+import type { Message } from "@/store";
+import { Markdown } from "./Markdown";
+
+const JOB_STATUS = {
+  running: "Researching…",
+  completed: "Research complete",
+  failed: "Research failed",
+  cancelled: "Research stopped",
+};
+
+// Tools name their sources; only web links are made clickable
+const isWebUrl = (url?: string) => !!url && /^https?:\/\//i.test(url);
+
+function StepIcon({ status }: { status: ResearchStepDto["status"] }) {
+  switch (status) {
+    case "running":
+      return <Loader2Icon className="h-4 w-4 shrink-0 animate-spin" />;
+    case "done":
+      return <CheckCircle2Icon className="h-4 w-4 shrink-0 text-primary" />;
+    case "failed":
+      return <XCircleIcon className="h-4 w-4 shrink-0 text-destructive" />;
+    default:
+      return <CircleIcon className="h-4 w-4 shrink-0 text-muted-foreground" />;
+  }
+}
+
+interface ResearchTimelineProps {
+  chatroomId: string;
+  // A reply with a researchJobId
+  message: Message;
+}
+
+/**
+ * Live progress of the Deep Research job behind a reply. Steps expand to
+ * show what they found; the whole timeline folds away once read.
+ */
+export function ResearchTimeline({
+  chatroomId,
+  message,
+}: ResearchTimelineProps) {
+  const jobId = message.researchJobId!;
+  const { job, error } = useResearchJob(jobId);
+  const cancel = useCancelResearch(jobId);
+  const isGone = error instanceof ApiError && error.status === 404;
+
+  // Whichever tab sees the job end first writes the report into the reply
+  useEffect(() => {
+    if (message.status !== "pending") return;
+    if (isGone) finishResearch(chatroomId, message.id, null);
+    else if (job && job.status !== "running") {
+      finishResearch(chatroomId, message.id, job);
+    }
+  }, [chatroomId, message.id, message.status, job, isGone]);
+
+  if (!job) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {isGone
+          ? "This research is no longer available."
+          : error
+            ? "Couldn't load research progress."
+            : "Loading research…"}
+      </p>
+    );
+  }
+
+  const searches = job.steps.filter((step) => step.kind === "search");
+  const searched = searches.filter((step) => step.status === "done").length;
+
+  return (
+    <div className="not-prose mb-2 rounded-lg border bg-background text-left">
+      <Accordion
+        type="single"
+        collapsible
+        defaultValue={job.status === "running" ? "steps" : undefined}
+      >
+        <AccordionItem value="steps" className="border-b-0">
+          <div className="flex items-center gap-2 px-3">
+            <AccordionTrigger className="py-2 text-sm hover:no-underline">
+              <span className="flex items-center gap-2">
+                <span>🔬</span>
+                {JOB_STATUS[job.status]}
+                {searches.length > 0 && (
+                  <span className="font-normal text-muted-foreground tabular-nums">
+                    {searched}/{searches.length} questions
+                  </span>
+                )}
+              </span>
+            </AccordionTrigger>
+            {job.status === "running" && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => cancel.mutate()}
+                disabled={cancel.isPending}
+                aria-label="Stop research"
+                title="Stop research"
+              >
+                <SquareIcon className="h-3 w-3 fill-current" />
+              </Button>
+            )}
+          </div>
+          <AccordionContent className="px-3 pb-2">
+            <Accordion type="multiple">
+              {job.steps.map((step) => (
+                <AccordionItem
+                  key={step.id}
+                  value={step.id}
+                  className="last:border-b-0"
+                >
+                  <AccordionTrigger
+                    className="gap-2 py-2 text-left text-sm font-normal hover:no-underline disabled:cursor-default [&:disabled>svg:last-child]:invisible"
+                    disabled={!step.output}
+                  >
+                    <span className="flex flex-1 items-center gap-2">
+                      <StepIcon status={step.status} />
+                      {step.title}
+                    </span>
+                  </AccordionTrigger>
+                  <AccordionContent className="space-y-2 pl-6">
+                    {step.output && <Markdown content={step.output} />}
+                    {step.sources && step.sources.length > 0 && (
+                      <ul className="space-y-1 text-xs text-muted-foreground">
+                        {step.sources.map((source, index) => (
+                          <li key={index}>
+                            {isWebUrl(source.url) ? (
+                              <a
+                                href={source.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="underline hover:text-foreground"
+                              >
+                                {source.title}
+                              </a>
+                            ) : (
+                              source.title
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+            {job.error && (
+              <p className="pt-2 text-sm text-destructive">{job.error}</p>
+            )}
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -26,50 +27,54 @@ import {
   TrashIcon,
   MenuIcon,
   XIcon,
+  LogOutIcon,
+  MonitorSmartphoneIcon,
+  Loader2Icon,
+  AlertCircleIcon,
+  GemIcon,
 } from "lucide-react";
 import { useAppStore } from "@/store";
 import { cn } from "@/lib/utils";
+import { stopGeneration } from "@/lib/generation";
 import { ThemeSwitcher } from "@/components/ui/theme-switcher";
+import { LogoutDialog } from "@/components/account/LogoutDialog";
+import { SessionsDialog } from "@/components/account/SessionsDialog";
 
 export function Sidebar() {
   const {
     chatrooms,
     activeChatroomId,
+    generations,
     searchQuery,
     isSidebarOpen,
-    createChatroom,
     deleteChatroom,
-    setActiveChatroom,
     setSearchQuery,
     setSidebarOpen,
     getFilteredChatrooms,
   } = useAppStore();
 
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
-  const [chatroomCount, setChatroomCount] = useState(chatrooms.length);
+  const [sessionsOpen, setSessionsOpen] = useState(false);
+  const [logoutOpen, setLogoutOpen] = useState(false);
+  const navigate = useNavigate();
 
   const filteredChatrooms = getFilteredChatrooms();
 
-  // Force refresh when chatroom count changes (after deletion)
-  useEffect(() => {
-    if (chatroomCount > chatrooms.length) {
-      // A chatroom was deleted, force component refresh
-      setDeleteConfirmId(null);
-      // Force re-render by updating a dummy state
-      setTimeout(() => {
-        window.location.reload();
-      }, 100);
-    }
-    setChatroomCount(chatrooms.length);
-  }, [chatrooms.length, chatroomCount]);
-
-  const handleNewChat = () => {
-    const newChatroom = createChatroom();
-  };
+  // The chatroom itself is only created once the first message is sent
+  const handleNewChat = () => navigate("/chat/new");
 
   const handleDeleteChatroom = (id: string) => {
+    const wasActive = id === activeChatroomId;
+    stopGeneration(id);
     deleteChatroom(id);
     setDeleteConfirmId(null);
+
+    // Open the chat the store picked instead, without leaving the deleted
+    // one in history
+    if (wasActive) {
+      const nextId = useAppStore.getState().activeChatroomId;
+      navigate(nextId ? `/chat/${nextId}` : "/chat/new", { replace: true });
+    }
   };
 
   const formatDate = (date: Date | string) => {
@@ -158,8 +163,12 @@ export function Sidebar() {
                 <PlusIcon className="mr-2 h-4 w-4" />
                 New Chat
               </Button>
-              <Button variant="ghost" className="w-full justify-start" disabled>
-                <SearchIcon className="mr-2 h-4 w-4" />
+              <Button
+                variant="ghost"
+                className="w-full justify-start"
+                onClick={() => navigate("/gems")}
+              >
+                <GemIcon className="mr-2 h-4 w-4" />
                 Explore Gems
               </Button>
             </div>
@@ -201,12 +210,25 @@ export function Sidebar() {
                         activeChatroomId === chatroom.id &&
                           "bg-sidebar-accent border border-sidebar-primary/20",
                       )}
-                      onClick={() => setActiveChatroom(chatroom.id)}
+                      onClick={() => navigate(`/chat/${chatroom.id}`)}
                     >
                       <div className="flex-1 min-w-0">
-                        <h4 className="text-sm font-medium text-sidebar-foreground truncate">
-                          {chatroom.title}
-                        </h4>
+                        <div className="flex items-center gap-1.5">
+                          <h4 className="text-sm font-medium text-sidebar-foreground truncate">
+                            {chatroom.title}
+                          </h4>
+                          {generations[chatroom.id]?.status === "error" ? (
+                            <AlertCircleIcon
+                              className="h-3.5 w-3.5 shrink-0 text-destructive"
+                              aria-label="Reply failed"
+                            />
+                          ) : generations[chatroom.id] ? (
+                            <Loader2Icon
+                              className="h-3.5 w-3.5 shrink-0 animate-spin text-muted-foreground"
+                              aria-label="Generating a reply"
+                            />
+                          ) : null}
+                        </div>
                         <p className="text-xs text-muted-foreground">
                           {formatDate(
                             chatroom.lastMessage || chatroom.createdAt,
@@ -258,6 +280,24 @@ export function Sidebar() {
                 <span className="mr-2">⚙️</span>
                 Settings & Help
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start hover:bg-sidebar-accent"
+                onClick={() => setSessionsOpen(true)}
+              >
+                <MonitorSmartphoneIcon className="mr-2 h-4 w-4" />
+                Devices & sessions
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start hover:bg-sidebar-accent"
+                onClick={() => setLogoutOpen(true)}
+              >
+                <LogOutIcon className="mr-2 h-4 w-4" />
+                Log out
+              </Button>
             </div>
           </div>
         </div>
@@ -293,6 +333,9 @@ export function Sidebar() {
         </AlertDialog>
       )}
 
+      <SessionsDialog open={sessionsOpen} onOpenChange={setSessionsOpen} />
+      <LogoutDialog open={logoutOpen} onOpenChange={setLogoutOpen} />
+
       {/* Mobile menu toggle */}
       {!isSidebarOpen && (
         <Button
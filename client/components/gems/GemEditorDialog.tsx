@@ -0,0 +1,252 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { GEM_LIMITS, GENERATION_LIMITS, type GemDto } from "@shared/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useModels } from "@/hooks/use-models";
+import { useSaveGem } from "@/hooks/use-gems";
+import { cn, formatModelName } from "@/lib/utils";
+
+const ICONS = ["💎", "🧠", "✍️", "💻", "📚", "🧮", "🎨", "🌍"];
+
+// Select items cannot have an empty value
+const DEFAULT_MODEL = "default";
+
+function toLines(value: string) {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+const gemSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Give your Gem a name")
+    .max(GEM_LIMITS.nameLength),
+  icon: z.string().trim().min(1, "Pick an icon").max(16),
+  instructions: z
+    .string()
+    .max(
+      GENERATION_LIMITS.systemInstructionLength,
+      `Keep it under ${GENERATION_LIMITS.systemInstructionLength} characters`,
+    ),
+  model: z.string(),
+  // One per line
+  starterPrompts: z
+    .string()
+    .refine(
+      (value) => toLines(value).length <= GEM_LIMITS.starterPrompts,
+      `Use at most ${GEM_LIMITS.starterPrompts} starter prompts`,
+    )
+    .refine(
+      (value) =>
+        toLines(value).every(
+          (line) => line.length <= GEM_LIMITS.starterPromptLength,
+        ),
+      `Keep each prompt under ${GEM_LIMITS.starterPromptLength} characters`,
+    ),
+});
+
+type GemFormData = z.infer<typeof gemSchema>;
+
+function toFormData(gem?: GemDto): GemFormData {
+  return {
+    name: gem?.name ?? "",
+    icon: gem?.icon ?? ICONS[0],
+    instructions: gem?.instructions ?? "",
+    model: gem?.model ?? DEFAULT_MODEL,
+    starterPrompts: (gem?.starterPrompts ?? []).join("\n"),
+  };
+}
+
+interface GemEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The Gem to edit; a new one is created when unset
+  gem?: GemDto;
+}
+
+export function GemEditorDialog({
+  open,
+  onOpenChange,
+  gem,
+}: GemEditorDialogProps) {
+  const { toast } = useToast();
+  const { models } = useModels();
+  const saveGem = useSaveGem();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<GemFormData>({
+    resolver: zodResolver(gemSchema),
+    defaultValues: toFormData(gem),
+  });
+
+  const icon = watch("icon");
+  const model = watch("model");
+
+  useEffect(() => {
+    if (open) reset(toFormData(gem));
+  }, [open, gem, reset]);
+
+  const onSubmit = async (data: GemFormData) => {
+    try {
+      await saveGem.mutateAsync({
+        id: gem?.id,
+        name: data.name,
+        icon: data.icon,
+        instructions: data.instructions.trim(),
+        model: data.model === DEFAULT_MODEL ? undefined : data.model,
+        starterPrompts: toLines(data.starterPrompts),
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Failed to save Gem",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{gem ? "Edit Gem" : "New Gem"}</DialogTitle>
+          <DialogDescription>
+            Chats started with this Gem follow its instructions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="gem-name">Name</Label>
+            <div className="flex gap-2">
+              <Input
+                {...register("icon")}
+                aria-label="Icon"
+                className="w-14 text-center text-lg"
+              />
+              <Input
+                {...register("name")}
+                id="gem-name"
+                placeholder="e.g. Writing coach"
+              />
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {ICONS.map((option) => (
+                <Button
+                  key={option}
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className={cn("h-8 w-8", icon === option && "bg-accent")}
+                  onClick={() => setValue("icon", option)}
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+            {(errors.name || errors.icon) && (
+              <p className="text-sm text-destructive">
+                {errors.name?.message ?? errors.icon?.message}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="gem-instructions">Instructions</Label>
+            <Textarea
+              {...register("instructions")}
+              id="gem-instructions"
+              placeholder="e.g. You review essays and suggest clearer wording, one paragraph at a time."
+              className="min-h-[120px]"
+            />
+            {errors.instructions && (
+              <p className="text-sm text-destructive">
+                {errors.instructions.message}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Default model</Label>
+            <Select
+              value={model}
+              onValueChange={(value) => setValue("model", value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_MODEL}>Server default</SelectItem>
+                {models.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {formatModelName(option.id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="gem-starters">Starter prompts</Label>
+            <Textarea
+              {...register("starterPrompts")}
+              id="gem-starters"
+              placeholder="One per line"
+              rows={3}
+            />
+            {errors.starterPrompts && (
+              <p className="text-sm text-destructive">
+                {errors.starterPrompts.message}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveGem.isPending}>
+              {saveGem.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
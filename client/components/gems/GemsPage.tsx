@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  MenuIcon,
+  MessageSquarePlusIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from "lucide-react";
+import type { GemDto } from "@shared/api";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Sidebar } from "@/components/chat/Sidebar";
+import { useAppStore } from "@/store";
+import { useToast } from "@/hooks/use-toast";
+import { useDeleteGem, useGems } from "@/hooks/use-gems";
+import { formatModelName } from "@/lib/utils";
+import { GemEditorDialog } from "./GemEditorDialog";
+
+/**
+ * Renders /gems: the user's Gems, to start chats with or manage
+ */
+export function GemsPage() {
+  const { gems, isLoading } = useGems();
+  const deleteGem = useDeleteGem();
+  const { createChatroom, isSidebarOpen, setSidebarOpen } = useAppStore();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Undefined while closed, null for a new Gem
+  const [editing, setEditing] = useState<GemDto | null | undefined>();
+  const [deleting, setDeleting] = useState<GemDto | null>(null);
+
+  // The chat takes the Gem's instructions and model as its own settings
+  const startChat = (gem: GemDto) => {
+    const room = createChatroom({
+      gemId: gem.id,
+      model: gem.model,
+      settings: gem.instructions
+        ? { systemInstruction: gem.instructions }
+        : undefined,
+    });
+    navigate(`/chat/${room.id}`);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteGem.mutateAsync(deleting.id);
+    } catch (error) {
+      toast({
+        title: "Failed to delete Gem",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="h-screen flex bg-background overflow-hidden">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-border bg-background">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setSidebarOpen(!isSidebarOpen)}
+              className="lg:hidden"
+            >
+              <MenuIcon className="h-5 w-5" />
+            </Button>
+            <h2 className="font-medium">Gems</h2>
+            <Button
+              size="sm"
+              className="ml-auto"
+              onClick={() => setEditing(null)}
+            >
+              <PlusIcon className="mr-2 h-4 w-4" />
+              New Gem
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          <div className="max-w-5xl mx-auto">
+            {isLoading ? (
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {[0, 1, 2].map((index) => (
+                  <Skeleton key={index} className="h-48" />
+                ))}
+              </div>
+            ) : gems.length === 0 ? (
+              <div className="text-center py-16">
+                <div className="text-4xl mb-4">💎</div>
+                <h3 className="text-xl font-semibold mb-2">No Gems yet</h3>
+                <p className="text-muted-foreground mb-6">
+                  Gems are assistants with your own instructions, for tasks you
+                  come back to.
+                </p>
+                <Button onClick={() => setEditing(null)}>
+                  <PlusIcon className="mr-2 h-4 w-4" />
+                  Create a Gem
+                </Button>
+              </div>
+            ) : (
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {gems.map((gem) => (
+                  <Card key={gem.id} className="flex flex-col">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        <span className="text-2xl">{gem.icon}</span>
+                        <span className="truncate">{gem.name}</span>
+                      </CardTitle>
+                      {gem.model && (
+                        <CardDescription>
+                          {formatModelName(gem.model)}
+                        </CardDescription>
+                      )}
+                    </CardHeader>
+                    <CardContent className="flex-1">
+                      <p className="text-sm text-muted-foreground line-clamp-3">
+                        {gem.instructions || "No instructions"}
+                      </p>
+                    </CardContent>
+                    <CardFooter className="gap-2">
+                      <Button size="sm" onClick={() => startChat(gem)}>
+                        <MessageSquarePlusIcon className="mr-2 h-4 w-4" />
+                        Chat
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="ml-auto h-8 w-8"
+                        onClick={() => setEditing(gem)}
+                        aria-label="Edit Gem"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setDeleting(gem)}
+                        aria-label="Delete Gem"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </Button>
+                    </CardFooter>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <GemEditorDialog
+        open={editing !== undefined}
+        onOpenChange={(open) => !open && setEditing(undefined)}
+        gem={editing ?? undefined}
+      />
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Gem</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will delete "{deleting?.name}". Chats started with it are
+              kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { useAppStore } from "@/store";
+import { pullChatrooms, pushChatroom, pushMessage } from "@/store/sync";
+
+/**
+ * Reconciles local chat history with the server once per signed-in user:
+ * chatrooms left behind by another account are dropped, server chatrooms are
+ * merged in, and anything only stored on this device (e.g. history from
+ * before server sync existed) is uploaded.
+ * Returns whether that has finished, successfully or not.
+ */
+export function useChatSync() {
+  const userId = useAppStore((state) => state.user?.id);
+  const [synced, setSynced] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    setSynced(false);
+    useAppStore.getState().keepOwnChatrooms(userId);
+
+    pullChatrooms()
+      .then((remote) => {
+        if (cancelled) return;
+
+        const { chatrooms: local, mergeChatrooms } = useAppStore.getState();
+        const remoteById = new Map(remote.map((room) => [room.id, room]));
+
+        for (const room of local) {
+          const remoteRoom = remoteById.get(room.id);
+          if (!remoteRoom) pushChatroom(room);
+
+          // Only the latest page is pulled, so messages older than it are
+          // assumed to be on the server already
+          const remoteMessageIds = new Set(
+            remoteRoom?.messages.map((msg) => msg.id),
+          );
+          const oldestRemote = remoteRoom?.hasOlderMessages
+            ? remoteRoom.messages[0]?.timestamp
+            : undefined;
+          for (const message of room.messages) {
+            if (
+              !remoteMessageIds.has(message.id) &&
+              !(oldestRemote && message.timestamp < oldestRemote)
+            ) {
+              pushMessage(room.id, message);
+            }
+          }
+        }
+
+        mergeChatrooms(remote);
+      })
+      .catch((error) => console.error("Failed to load chat history:", error))
+      .finally(() => {
+        if (!cancelled) setSynced(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return synced;
+}
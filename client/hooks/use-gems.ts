@@ -0,0 +1,37 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { SaveGemRequest } from "@shared/api";
+import { createGem, deleteGem, fetchGems, updateGem } from "@/lib/api";
+
+const GEMS_KEY = ["gems"];
+
+/**
+ * The signed-in user's Gems, most recently updated first
+ */
+export function useGems() {
+  const { data, isLoading, error } = useQuery({
+    queryKey: GEMS_KEY,
+    queryFn: fetchGems,
+  });
+
+  return { gems: data?.gems ?? [], isLoading, error };
+}
+
+/**
+ * Creates a Gem, or updates it when an id is given
+ */
+export function useSaveGem() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...body }: SaveGemRequest) =>
+      id ? updateGem(id, body) : createGem(body),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: GEMS_KEY }),
+  });
+}
+
+export function useDeleteGem() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteGem,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: GEMS_KEY }),
+  });
+}
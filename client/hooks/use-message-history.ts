@@ -0,0 +1,82 @@
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import { useAppStore } from "@/store";
+import { pullOlderMessages } from "@/store/sync";
+
+/**
+ * Loads a chatroom's history page by page, walking back from the oldest
+ * loaded message. `getViewport` returns the scrolling element: when older
+ * messages are prepended its scroll position is shifted so the messages on
+ * screen stay put.
+ */
+export function useMessageHistory(
+  chatroomId: string,
+  getViewport: () => HTMLElement | null,
+) {
+  const hasMore = useAppStore((state) => {
+    const room = state.chatrooms.find((room) => room.id === chatroomId);
+    return Boolean(room?.hasOlderMessages && room.messages.length > 0);
+  });
+  const prependMessages = useAppStore((state) => state.prependMessages);
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Distance from the bottom of the content, taken right before prepending
+  const anchorRef = useRef<number | null>(null);
+  const chatroomIdRef = useRef(chatroomId);
+
+  useEffect(() => {
+    chatroomIdRef.current = chatroomId;
+    anchorRef.current = null;
+    setLoading(false);
+    setError(null);
+  }, [chatroomId]);
+
+  const loadOlder = useCallback(async () => {
+    if (loading || !hasMore) return;
+
+    const room = useAppStore
+      .getState()
+      .chatrooms.find((room) => room.id === chatroomId);
+    const oldest = room?.messages[0];
+    if (!oldest) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await pullOlderMessages(chatroomId, oldest.id);
+      // The user may have switched chatrooms while the page was loading
+      const viewport =
+        chatroomIdRef.current === chatroomId ? getViewport() : null;
+      if (viewport) {
+        anchorRef.current = viewport.scrollHeight - viewport.scrollTop;
+      }
+      prependMessages(chatroomId, page.messages, page.hasMore);
+    } catch (err) {
+      if (chatroomIdRef.current === chatroomId) {
+        setError(
+          err instanceof Error ? err.message : "Failed to load messages",
+        );
+      }
+    } finally {
+      if (chatroomIdRef.current === chatroomId) setLoading(false);
+    }
+  }, [chatroomId, getViewport, hasMore, loading, prependMessages]);
+
+  // Runs after the prepended messages are in the DOM, before paint
+  useLayoutEffect(() => {
+    const viewport = getViewport();
+    if (anchorRef.current === null || !viewport) return;
+
+    viewport.scrollTop = viewport.scrollHeight - anchorRef.current;
+    anchorRef.current = null;
+  });
+
+  return { hasMore, loading, error, loadOlder };
+}
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchModels } from "@/lib/api";
+
+/**
+ * Models the server can generate with. They only change when the server is
+ * reconfigured, so they are fetched once per session.
+ */
+export function useModels() {
+  const { data, isLoading } = useQuery({
+    queryKey: ["models"],
+    queryFn: fetchModels,
+    staleTime: Infinity,
+  });
+
+  return {
+    models: data?.models ?? [],
+    defaultModel: data?.defaultModel,
+    isLoading,
+  };
+}
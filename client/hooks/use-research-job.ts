@@ -0,0 +1,32 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { cancelResearchJob, fetchResearchJob } from "@/lib/api";
+
+// How often a running job is checked for progress
+const POLL_INTERVAL_MS = 2000;
+
+const researchKey = (id: string) => ["research", id];
+
+/**
+ * A Deep Research job, polled until it stops running
+ */
+export function useResearchJob(id: string) {
+  const { data, error } = useQuery({
+    queryKey: researchKey(id),
+    queryFn: () => fetchResearchJob(id),
+    refetchInterval: (query) =>
+      query.state.data?.status === "running" ? POLL_INTERVAL_MS : false,
+    // Jobs that ended never change again
+    staleTime: (query) =>
+      query.state.data && query.state.data.status !== "running" ? Infinity : 0,
+  });
+
+  return { job: data, error };
+}
+
+export function useCancelResearch(id: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => cancelResearchJob(id),
+    onSuccess: (job) => queryClient.setQueryData(researchKey(id), job),
+  });
+}
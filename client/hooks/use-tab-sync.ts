@@ -0,0 +1,9 @@
+import { useEffect } from "react";
+import { startTabSync } from "@/store/tab-sync";
+
+/**
+ * Shares store changes with other open tabs of the app
+ */
+export function useTabSync() {
+  useEffect(() => startTabSync(), []);
+}
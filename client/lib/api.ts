@@ -0,0 +1,255 @@
+import type {
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  ChatroomDto,
+  ChatroomsResponse,
+  CreateChatroomRequest,
+  ErrorResponse,
+  GemDto,
+  GemsResponse,
+  MeResponse,
+  OtpRequest,
+  OtpRequestResponse,
+  OtpVerifyRequest,
+  OtpVerifyResponse,
+  SaveGemRequest,
+  MessageDto,
+  MessagesQuery,
+  MessagesResponse,
+  ModelsResponse,
+  ResearchJobDto,
+  SessionsResponse,
+  StartResearchRequest,
+  UpdateChatroomRequest,
+} from "@shared/api";
+import { readSseData } from "@shared/sse";
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// Routes that must not trigger a token refresh when they answer 401
+const NO_REFRESH_ROUTES = ["/api/auth/otp/", "/api/auth/refresh"];
+
+let sessionExpiredHandler: (() => void) | null = null;
+let pendingRefresh: Promise<boolean> | null = null;
+
+/**
+ * Registers what to do once the session can no longer be refreshed
+ * (typically: drop the user back to the login screen)
+ */
+export function setSessionExpiredHandler(handler: (() => void) | null) {
+  sessionExpiredHandler = handler;
+}
+
+// Concurrent 401s share a single refresh round-trip
+function refreshSession(): Promise<boolean> {
+  pendingRefresh ??= fetch("/api/auth/refresh", { method: "POST" })
+    .then((response) => response.ok)
+    .catch(() => false)
+    .finally(() => {
+      pendingRefresh = null;
+    });
+  return pendingRefresh;
+}
+
+interface RequestOptions {
+  canRefresh?: boolean;
+  signal?: AbortSignal;
+}
+
+async function request(
+  method: string,
+  url: string,
+  body?: unknown,
+  {
+    canRefresh = !NO_REFRESH_ROUTES.some((route) => url.startsWith(route)),
+    signal,
+  }: RequestOptions = {},
+): Promise<Response> {
+  const response = await fetch(url, {
+    method,
+    headers:
+      body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal,
+  });
+
+  if (response.status === 401 && canRefresh) {
+    if (await refreshSession()) {
+      return request(method, url, body, { canRefresh: false, signal });
+    }
+    sessionExpiredHandler?.();
+  }
+
+  if (!response.ok) {
+    const data = (await response
+      .json()
+      .catch(() => null)) as ErrorResponse | null;
+    throw new ApiError(
+      data?.error || `Request failed (${response.status})`,
+      response.status,
+    );
+  }
+
+  return response;
+}
+
+const post = (url: string, body: unknown) => request("POST", url, body);
+
+async function getJson<T>(url: string): Promise<T> {
+  const response = await request("GET", url);
+  return (await response.json()) as T;
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await post(url, body);
+  return (await response.json()) as T;
+}
+
+export function requestOtp(request: OtpRequest): Promise<OtpRequestResponse> {
+  return postJson<OtpRequestResponse>("/api/auth/otp/request", request);
+}
+
+export function verifyOtp(
+  request: OtpVerifyRequest,
+): Promise<OtpVerifyResponse> {
+  return postJson<OtpVerifyResponse>("/api/auth/otp/verify", request);
+}
+
+export function getMe(): Promise<MeResponse> {
+  return getJson<MeResponse>("/api/auth/me");
+}
+
+export async function logout(): Promise<void> {
+  await post("/api/auth/logout", {});
+}
+
+export function listSessions(): Promise<SessionsResponse> {
+  return getJson<SessionsResponse>("/api/auth/sessions");
+}
+
+export async function revokeSession(id: string): Promise<void> {
+  await request("DELETE", `/api/auth/sessions/${id}`);
+}
+
+export function fetchChatrooms(): Promise<ChatroomsResponse> {
+  return getJson<ChatroomsResponse>("/api/chatrooms");
+}
+
+export function createChatroom(
+  body: CreateChatroomRequest,
+): Promise<ChatroomDto> {
+  return postJson<ChatroomDto>("/api/chatrooms", body);
+}
+
+export async function updateChatroom(
+  id: string,
+  body: UpdateChatroomRequest,
+): Promise<ChatroomDto> {
+  const response = await request("PATCH", `/api/chatrooms/${id}`, body);
+  return (await response.json()) as ChatroomDto;
+}
+
+export async function deleteChatroom(id: string): Promise<void> {
+  await request("DELETE", `/api/chatrooms/${id}`);
+}
+
+export function fetchMessages(
+  chatroomId: string,
+  query: MessagesQuery = {},
+): Promise<MessagesResponse> {
+  const params = new URLSearchParams();
+  if (query.before) params.set("before", query.before);
+  if (query.limit) params.set("limit", String(query.limit));
+  const search = params.toString();
+  return getJson<MessagesResponse>(
+    `/api/chatrooms/${chatroomId}/messages${search ? `?${search}` : ""}`,
+  );
+}
+
+export function saveMessage(
+  chatroomId: string,
+  message: MessageDto,
+): Promise<MessageDto> {
+  return postJson<MessageDto>(`/api/chatrooms/${chatroomId}/messages`, message);
+}
+
+export function fetchGems(): Promise<GemsResponse> {
+  return getJson<GemsResponse>("/api/gems");
+}
+
+export function createGem(body: SaveGemRequest): Promise<GemDto> {
+  return postJson<GemDto>("/api/gems", body);
+}
+
+export async function updateGem(
+  id: string,
+  body: SaveGemRequest,
+): Promise<GemDto> {
+  const response = await request("PUT", `/api/gems/${id}`, body);
+  return (await response.json()) as GemDto;
+}
+
+export async function deleteGem(id: string): Promise<void> {
+  await request("DELETE", `/api/gems/${id}`);
+}
+
+export function startResearch(
+  body: StartResearchRequest,
+): Promise<ResearchJobDto> {
+  return postJson<ResearchJobDto>("/api/research", body);
+}
+
+export function fetchResearchJob(id: string): Promise<ResearchJobDto> {
+  return getJson<ResearchJobDto>(`/api/research/${id}`);
+}
+
+export function cancelResearchJob(id: string): Promise<ResearchJobDto> {
+  return postJson<ResearchJobDto>(`/api/research/${id}/cancel`, {});
+}
+
+export function fetchModels(): Promise<ModelsResponse> {
+  return getJson<ModelsResponse>("/api/models");
+}
+
+export function sendChat(request: ChatRequest): Promise<ChatResponse> {
+  return postJson<ChatResponse>("/api/chat", request);
+}
+
+/**
+ * Streams a reply from /api/chat/stream, calling `onChunk` with each piece
+ * of text as it arrives. Resolves with the full reply once the stream ends.
+ * Aborting `signal` cancels generation on the server too; the promise then
+ * rejects with the abort error.
+ */
+export async function streamChat(
+  body: ChatRequest,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<ChatResponse> {
+  const response = await request("POST", "/api/chat/stream", body, { signal });
+  let content = "";
+
+  for await (const data of readSseData(response.body)) {
+    const event = JSON.parse(data) as ChatStreamEvent;
+
+    if (event.type === "chunk") {
+      content += event.text;
+      onChunk(event.text);
+    } else if (event.type === "error") {
+      throw new ApiError(event.error, 502);
+    } else {
+      return { content, model: event.model };
+    }
+  }
+
+  throw new ApiError("Stream ended unexpectedly", 502);
+}
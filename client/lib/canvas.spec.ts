@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { CANVAS_LIMITS } from "@shared/api";
+import {
+  addCanvasVersion,
+  buildEditPrompt,
+  createCanvas,
+  currentVersion,
+  isOverContentLimit,
+  parseDraft,
+  renameCanvas,
+  replaceRegion,
+  titleFor,
+} from "./canvas";
+
+describe("canvas", () => {
+  const canvas = createCanvas("Poem", "Roses are red", {
+    note: "Drafted by Gemini",
+  });
+
+  it("should add versions, skipping unchanged content", () => {
+    const edited = addCanvasVersion(canvas, "Roses are blue", "Edited by you");
+    expect(edited.versions.map((version) => version.note)).toEqual([
+      "Drafted by Gemini",
+      "Edited by you",
+    ]);
+    expect(currentVersion(edited).content).toBe("Roses are blue");
+
+    expect(addCanvasVersion(edited, "Roses are blue", "Again")).toBe(edited);
+  });
+
+  it("should drop the oldest versions past the limit", () => {
+    let long = canvas;
+    for (let i = 1; i <= CANVAS_LIMITS.versions; i++) {
+      long = addCanvasVersion(long, `Version ${i}`, "Edited by you");
+    }
+
+    expect(long.versions).toHaveLength(CANVAS_LIMITS.versions);
+    expect(long.versions[0].content).toBe("Version 1");
+    expect(currentVersion(long).content).toBe(
+      `Version ${CANVAS_LIMITS.versions}`,
+    );
+  });
+
+  it("should keep titles and notes within the server's limits", () => {
+    const instruction = "Make it rhyme ".repeat(100);
+    const edited = renameCanvas(
+      addCanvasVersion(canvas, "Roses rhyme", `Gemini: ${instruction}`),
+      instruction,
+    );
+
+    expect(edited.title).toHaveLength(CANVAS_LIMITS.titleLength);
+    for (const version of edited.versions) {
+      expect(version.note.length).toBeLessThanOrEqual(
+        CANVAS_LIMITS.titleLength,
+      );
+    }
+    expect(isOverContentLimit("x".repeat(CANVAS_LIMITS.contentLength))).toBe(
+      false,
+    );
+    expect(
+      isOverContentLimit("x".repeat(CANVAS_LIMITS.contentLength + 1)),
+    ).toBe(true);
+  });
+
+  it("should unwrap a reply made of one code block", () => {
+    expect(parseDraft("```python\nprint('hi')\n```")).toEqual({
+      content: "print('hi')",
+      language: "python",
+    });
+    expect(parseDraft("# Notes\n\n```js\nx()\n```\n")).toEqual({
+      content: "# Notes\n\n```js\nx()\n```",
+    });
+  });
+
+  it("should title documents by their first heading", () => {
+    expect(titleFor("Intro\n## Trip plan\nDay 1", "Plan my trip")).toBe(
+      "Trip plan",
+    );
+    expect(titleFor("No heading", "Plan my trip")).toBe("Plan my trip");
+  });
+
+  it("should mark the selected region for targeted edits", () => {
+    const content = "One. Two. Three.";
+    const selection = { start: 5, end: 9 };
+
+    expect(buildEditPrompt(canvas, content, "Shout", selection)).toContain(
+      "One. <selection>Two.</selection> Three.",
+    );
+    expect(replaceRegion(content, selection, "TWO!")).toBe("One. TWO! Three.");
+  });
+});
@@ -0,0 +1,210 @@
+import { diffLines, diffWordsWithSpace, type Change } from "diff";
+import { CANVAS_LIMITS, type GenerationSettings } from "@shared/api";
+import type { Canvas } from "@/store";
+import { sendChat } from "./api";
+
+/**
+ * Canvas content is written and edited by plain chat requests: the prompts
+ * below ask for the file alone, and replies are unwrapped from code fences.
+ */
+
+// Character offsets into the content, as read from a textarea
+export interface CanvasSelection {
+  start: number;
+  end: number;
+}
+
+export interface CanvasModelOptions {
+  model?: string;
+  settings?: GenerationSettings;
+}
+
+// Titles and notes are cut to fit; content past the limit is refused
+const clamp = (text: string) => text.slice(0, CANVAS_LIMITS.titleLength);
+
+export function isOverContentLimit(content: string) {
+  return content.length > CANVAS_LIMITS.contentLength;
+}
+
+export function currentVersion(canvas: Canvas) {
+  return canvas.versions[canvas.versions.length - 1];
+}
+
+export function createCanvas(
+  title: string,
+  content: string,
+  { language, note }: { language?: string; note: string },
+): Canvas {
+  return {
+    title: clamp(title),
+    language: language?.slice(0, CANVAS_LIMITS.languageLength),
+    versions: [
+      {
+        id: crypto.randomUUID(),
+        content,
+        note: clamp(note),
+        savedAt: new Date(),
+      },
+    ],
+  };
+}
+
+/**
+ * Saves `content` as the new current version, dropping the oldest ones past
+ * the limit. Content equal to the current version is not saved again.
+ */
+export function addCanvasVersion(
+  canvas: Canvas,
+  content: string,
+  note: string,
+): Canvas {
+  if (currentVersion(canvas)?.content === content) return canvas;
+
+  const versions = [
+    ...canvas.versions,
+    {
+      id: crypto.randomUUID(),
+      content,
+      note: clamp(note),
+      savedAt: new Date(),
+    },
+  ];
+  return { ...canvas, versions: versions.slice(-CANVAS_LIMITS.versions) };
+}
+
+export function renameCanvas(canvas: Canvas, title: string): Canvas {
+  return { ...canvas, title: clamp(title) };
+}
+
+/**
+ * Reads a file out of a model reply. A reply made of one fenced block is
+ * that block's content, in its language; anything else is a document.
+ */
+export function parseDraft(reply: string): {
+  content: string;
+  language?: string;
+} {
+  const text = reply.trim();
+  const fenced = /^```([\w+#.-]*)[^\n]*\n([\s\S]*?)\n?```$/.exec(text);
+  if (!fenced) return { content: text };
+  return { content: fenced[2], language: fenced[1] || undefined };
+}
+
+// A document's first heading, or the start of what was asked for
+export function titleFor(content: string, fallback: string) {
+  const heading = /^#{1,3}\s+(.+)$/m.exec(content)?.[1].trim();
+  const title = heading || fallback.trim();
+  return title.length > 50 ? `${title.substring(0, 50)}...` : title;
+}
+
+// Replies are trimmed, so the region keeps the whitespace around it
+function keepPadding(original: string, replacement: string) {
+  if (!original.trim()) return replacement;
+  const lead = /^\s*/.exec(original)[0];
+  const trail = /\s*$/.exec(original)[0];
+  return lead + replacement + trail;
+}
+
+export function replaceRegion(
+  content: string,
+  { start, end }: CanvasSelection,
+  replacement: string,
+) {
+  return content.slice(0, start) + replacement + content.slice(end);
+}
+
+export function buildDraftPrompt(request: string) {
+  return `Write the document or code file described below. Reply with the file alone: no introduction or closing remarks. Put code in a single fenced block tagged with its language; write documents in Markdown.
+
+${request}`;
+}
+
+/**
+ * Asks for `instruction` to be applied to the selected region only, marked
+ * in the text, or to the whole text when nothing is selected
+ */
+export function buildEditPrompt(
+  canvas: Canvas,
+  content: string,
+  instruction: string,
+  selection?: CanvasSelection,
+) {
+  const kind = canvas.language ? `${canvas.language} file` : "document";
+  if (!selection) {
+    return `You are editing the ${kind} "${canvas.title}" below. ${instruction}
+
+Reply with the complete new text alone, with no commentary.
+
+${content}`;
+  }
+
+  const marked = replaceRegion(
+    content,
+    selection,
+    `<selection>${content.slice(selection.start, selection.end)}</selection>`,
+  );
+  return `You are editing the ${kind} "${canvas.title}" below. Rewrite only the part between <selection> and </selection>: ${instruction}
+
+Reply with the new text for that part alone, without the markers and with no commentary.
+
+${marked}`;
+}
+
+// Code is compared line by line, prose word by word
+export function diffCanvas(
+  before: string,
+  after: string,
+  isCode: boolean,
+): Change[] {
+  return isCode ? diffLines(before, after) : diffWordsWithSpace(before, after);
+}
+
+async function ask(prompt: string, { model, settings }: CanvasModelOptions) {
+  const response = await sendChat({
+    messages: [{ sender: "user", content: prompt }],
+    model,
+    settings,
+  });
+  return response.content;
+}
+
+/**
+ * Has the model write a new canvas from a description
+ */
+export async function draftCanvas(
+  request: string,
+  options: CanvasModelOptions,
+): Promise<Canvas> {
+  const { content, language } = parseDraft(
+    await ask(buildDraftPrompt(request), options),
+  );
+  if (isOverContentLimit(content)) {
+    throw new Error("The draft is too long for a canvas.");
+  }
+  return createCanvas(titleFor(language ? "" : content, request), content, {
+    language,
+    note: "Drafted by Gemini",
+  });
+}
+
+/**
+ * Has the model apply an instruction to `content`, or just to the selected
+ * region of it. Resolves with the whole proposed content.
+ */
+export async function proposeCanvasEdit(
+  canvas: Canvas,
+  content: string,
+  instruction: string,
+  selection: CanvasSelection | undefined,
+  options: CanvasModelOptions,
+) {
+  const reply = parseDraft(
+    await ask(
+      buildEditPrompt(canvas, content, instruction, selection),
+      options,
+    ),
+  ).content;
+  if (!selection) return reply;
+  const original = content.slice(selection.start, selection.end);
+  return replaceRegion(content, selection, keepPadding(original, reply));
+}
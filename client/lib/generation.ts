@@ -0,0 +1,154 @@
+import { useAppStore, type MessageStatus } from "@/store";
+import { ApiError, streamChat } from "./api";
+import { buildMessageTree, getBranch } from "./message-tree";
+import { withRetry } from "./retry";
+
+/**
+ * Generates replies outside of any component, so a reply keeps streaming
+ * into its chatroom while the user looks at another one. Progress is kept
+ * per chatroom in the store's `generations`.
+ */
+
+// Cancels the reply being generated, by chatroom id
+const controllers = new Map<string, AbortController>();
+// Replies cut off by signing out, which are left unsaved
+const discarded = new WeakSet<AbortController>();
+
+export interface GenerateOptions {
+  // Retries failures that happen before the reply starts, with backoff
+  retry?: boolean;
+}
+
+// Network errors, rate limits and server-side failures may go away; a
+// request the server rejected would fail the same way again
+function isTransient(error: unknown) {
+  return (
+    !(error instanceof ApiError) || error.status === 429 || error.status >= 500
+  );
+}
+
+/**
+ * Streams the model's answer to a user message, as a reply to it, keeping
+ * both messages' status up to date. Stopping keeps the text streamed so
+ * far; failures are left in the chatroom's generation state until the next
+ * reply starts.
+ */
+export async function generateReply(
+  chatroomId: string,
+  userMessageId: string,
+  { retry = false }: GenerateOptions = {},
+) {
+  const store = useAppStore.getState();
+  controllers.get(chatroomId)?.abort();
+  const controller = new AbortController();
+  controllers.set(chatroomId, controller);
+  store.setGeneration(chatroomId, { status: "pending" });
+  store.updateMessage(chatroomId, userMessageId, { status: "pending" });
+
+  // Send the conversation up to the prompt so the model has context
+  const room = store.chatrooms.find((room) => room.id === chatroomId);
+  const history = getBranch(
+    buildMessageTree(room?.messages ?? []),
+    userMessageId,
+  ).map(({ sender, content, imageUrl }) => ({ sender, content, imageUrl }));
+
+  // The AI message is created on the first chunk and grows as more arrive
+  let aiMessageId: string | null = null;
+  // The server names the model it used once done; the default if unset
+  let model = room?.model;
+  let content = "";
+  let error: string | null = null;
+  let replyStatus: MessageStatus = "sent";
+
+  const stream = () =>
+    streamChat(
+      { messages: history, model, settings: room?.settings },
+      (chunk) => {
+        content += chunk;
+
+        if (!aiMessageId) {
+          store.updateMessage(chatroomId, userMessageId, { status: "sent" });
+          aiMessageId = store.addMessage(chatroomId, {
+            content,
+            sender: "ai",
+            timestamp: new Date(),
+            parentId: userMessageId,
+            status: "pending",
+            model,
+          }).id;
+          store.setGeneration(chatroomId, {
+            status: "streaming",
+            messageId: aiMessageId,
+          });
+        } else {
+          store.updateMessage(chatroomId, aiMessageId, { content });
+        }
+      },
+      controller.signal,
+    );
+
+  try {
+    const response = await (retry
+      ? withRetry(stream, {
+          signal: controller.signal,
+          // Once text has arrived, trying again would repeat it
+          shouldRetry: (err) => !aiMessageId && isTransient(err),
+        })
+      : stream());
+    model = response.model;
+  } catch (err) {
+    // Whatever was streamed before stopping or failing is kept
+    if (controller.signal.aborted) {
+      replyStatus = "stopped";
+    } else {
+      replyStatus = "failed";
+      error = err instanceof Error ? err.message : "Please try again.";
+    }
+  } finally {
+    // Nothing is written once signed out
+    if (!discarded.has(controller)) {
+      // Without any reply, the outcome belongs to the prompt
+      if (aiMessageId) {
+        store.updateMessage(chatroomId, aiMessageId, {
+          status: replyStatus,
+          model,
+        });
+        store.persistMessage(chatroomId, aiMessageId);
+      } else {
+        store.updateMessage(chatroomId, userMessageId, {
+          status: replyStatus,
+        });
+      }
+      store.persistMessage(chatroomId, userMessageId);
+    }
+
+    // After a stop, a newer reply may already own the chatroom's state
+    if (controllers.get(chatroomId) === controller) {
+      controllers.delete(chatroomId);
+      store.setGeneration(
+        chatroomId,
+        error ? { status: "error", error } : null,
+      );
+    }
+  }
+}
+
+/**
+ * Cancels the chatroom's reply; the chatroom is idle again right away
+ */
+export function stopGeneration(chatroomId: string) {
+  controllers.get(chatroomId)?.abort();
+  controllers.delete(chatroomId);
+  useAppStore.getState().setGeneration(chatroomId, null);
+}
+
+/**
+ * Cancels every reply being generated without saving them, for signing out
+ */
+export function abortAllGenerations() {
+  for (const controller of controllers.values()) {
+    discarded.add(controller);
+    controller.abort();
+  }
+  controllers.clear();
+}
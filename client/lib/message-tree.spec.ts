@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { Message } from "@/store";
+import {
+  buildMessageTree,
+  getBranch,
+  getLatestLeaf,
+  getSiblings,
+} from "./message-tree";
+
+let clock = 0;
+const message = (
+  id: string,
+  parentId?: string | null,
+  sender: Message["sender"] = "user",
+): Message => ({
+  id,
+  content: id,
+  sender,
+  timestamp: new Date(++clock * 1000),
+  parentId,
+});
+
+const ids = (messages: Message[]) => messages.map((msg) => msg.id);
+
+describe("message tree", () => {
+  // u1 -> a1 -> u2 -> a2, with u2 edited into u2b -> a2b
+  const messages = [
+    message("u1", null),
+    message("a1", "u1", "ai"),
+    message("u2", "a1"),
+    message("a2", "u2", "ai"),
+    message("u2b", "a1"),
+    message("a2b", "u2b", "ai"),
+  ];
+  const tree = buildMessageTree(messages);
+
+  it("should show the branch of the newest message by default", () => {
+    expect(ids(getBranch(tree))).toEqual(["u1", "a1", "u2b", "a2b"]);
+    expect(ids(getBranch(tree, "unknown"))).toEqual(["u1", "a1", "u2b", "a2b"]);
+  });
+
+  it("should follow the newest replies past the picked message", () => {
+    expect(ids(getBranch(tree, "a2"))).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(ids(getBranch(tree, "u2"))).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(getLatestLeaf(tree, "a1")).toBe("a2b");
+  });
+
+  it("should list alternative versions oldest first", () => {
+    expect(ids(getSiblings(tree, "u2b"))).toEqual(["u2", "u2b"]);
+    expect(ids(getSiblings(tree, "u1"))).toEqual(["u1"]);
+    expect(getSiblings(tree, "unknown")).toEqual([]);
+  });
+
+  it("should chain messages saved before branching existed", () => {
+    const legacy = buildMessageTree([
+      message("l1"),
+      message("l2", undefined, "ai"),
+      message("l3"),
+      message("l3b", "l2"),
+    ]);
+
+    expect(ids(getBranch(legacy, "l3"))).toEqual(["l1", "l2", "l3"]);
+    expect(ids(getSiblings(legacy, "l3"))).toEqual(["l3", "l3b"]);
+  });
+
+  it("should start the branch at messages whose parent is not loaded", () => {
+    const page = buildMessageTree([
+      message("p2", "p1", "ai"),
+      message("p3", "p2"),
+    ]);
+
+    expect(ids(getBranch(page))).toEqual(["p2", "p3"]);
+  });
+
+  it("should not hang on parent cycles", () => {
+    const corrupt = buildMessageTree([
+      message("c1", "c2"),
+      message("c2", "c1"),
+    ]);
+
+    expect(getBranch(corrupt).length).toBeLessThanOrEqual(2);
+  });
+});
@@ -0,0 +1,91 @@
+import type { Message } from "@/store";
+
+/**
+ * A chatroom's messages as a tree: editing a prompt adds a sibling of the
+ * original message, starting a new branch from that point. The chatroom
+ * shows one branch at a time, from the first message down to a leaf.
+ */
+export interface MessageTree {
+  byId: Map<string, Message>;
+  // null for messages that start the conversation
+  parentOf: Map<string, string | null>;
+  // Oldest first; keyed by parent id, null for the first messages
+  childrenOf: Map<string | null, Message[]>;
+  newestId: string | null;
+}
+
+/**
+ * Builds the tree from a chatroom's messages, oldest first. Messages saved
+ * before branching existed have no parentId and follow the message before
+ * them.
+ */
+export function buildMessageTree(messages: Message[]): MessageTree {
+  const tree: MessageTree = {
+    byId: new Map(),
+    parentOf: new Map(),
+    childrenOf: new Map(),
+    newestId: null,
+  };
+
+  let previous: Message | null = null;
+  for (const message of messages) {
+    const parentId =
+      message.parentId === undefined
+        ? (previous?.id ?? null)
+        : message.parentId;
+    tree.byId.set(message.id, message);
+    tree.parentOf.set(message.id, parentId);
+    const siblings = tree.childrenOf.get(parentId);
+    if (siblings) siblings.push(message);
+    else tree.childrenOf.set(parentId, [message]);
+    previous = message;
+  }
+  tree.newestId = previous?.id ?? null;
+
+  return tree;
+}
+
+/**
+ * The leaf reached from `messageId` by always taking the newest reply
+ */
+export function getLatestLeaf(tree: MessageTree, messageId: string) {
+  let id = messageId;
+  // Bounded so a parent cycle in corrupt data cannot hang the app
+  for (let depth = 0; depth < tree.byId.size; depth++) {
+    const children = tree.childrenOf.get(id);
+    if (!children?.length) break;
+    id = children[children.length - 1].id;
+  }
+  return id;
+}
+
+/**
+ * Messages of the branch through `messageId`, oldest first. The branch
+ * continues past it along the newest replies. Without a known message it
+ * is the branch of the newest message. Stops early at a message whose
+ * parent is in an older page that has not been loaded.
+ */
+export function getBranch(
+  tree: MessageTree,
+  messageId?: string | null,
+): Message[] {
+  const start =
+    messageId && tree.byId.has(messageId) ? messageId : tree.newestId;
+  if (!start) return [];
+
+  const branch: Message[] = [];
+  let id: string | null = getLatestLeaf(tree, start);
+  while (id && tree.byId.has(id) && branch.length < tree.byId.size) {
+    branch.push(tree.byId.get(id));
+    id = tree.parentOf.get(id);
+  }
+  return branch.reverse();
+}
+
+/**
+ * The message and its alternatives (including itself), oldest first
+ */
+export function getSiblings(tree: MessageTree, messageId: string): Message[] {
+  if (!tree.parentOf.has(messageId)) return [];
+  return tree.childrenOf.get(tree.parentOf.get(messageId)) ?? [];
+}
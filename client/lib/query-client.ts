@@ -0,0 +1,7 @@
+import { QueryClient } from "@tanstack/react-query";
+
+/**
+ * The app's one query cache. It lives outside of React so the store can
+ * clear it on sign-out, before the next user's queries run.
+ */
+export const queryClient = new QueryClient();
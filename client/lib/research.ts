@@ -0,0 +1,74 @@
+import type { ResearchJobDto } from "@shared/api";
+import { useAppStore } from "@/store";
+import { whenSynced } from "@/store/sync";
+import { startResearch as startResearchJob } from "./api";
+
+/**
+ * Deep Research runs as a job on the server. The reply is added as soon as
+ * the job starts and shows its progress (see ResearchTimeline); the report
+ * is written into it once the job ends, however long that takes.
+ */
+
+/**
+ * Starts researching a user message's content, as a reply to it
+ */
+export async function startResearch(chatroomId: string, userMessageId: string) {
+  const store = useAppStore.getState();
+  store.setGeneration(chatroomId, { status: "pending" });
+  store.updateMessage(chatroomId, userMessageId, { status: "pending" });
+
+  const room = store.chatrooms.find((room) => room.id === chatroomId);
+  const prompt = room?.messages.find((msg) => msg.id === userMessageId);
+
+  try {
+    // The server only researches for chatrooms it already has
+    await whenSynced(chatroomId);
+    const job = await startResearchJob({
+      chatroomId,
+      question: prompt?.content ?? "",
+      model: room?.model,
+      settings: room?.settings,
+    });
+    store.updateMessage(chatroomId, userMessageId, { status: "sent" });
+    store.addMessage(chatroomId, {
+      content: "",
+      sender: "ai",
+      timestamp: new Date(),
+      parentId: userMessageId,
+      status: "pending",
+      model: job.model,
+      researchJobId: job.id,
+    });
+    store.setGeneration(chatroomId, null);
+  } catch (err) {
+    store.updateMessage(chatroomId, userMessageId, { status: "failed" });
+    store.setGeneration(chatroomId, {
+      status: "error",
+      error: err instanceof Error ? err.message : "Please try again.",
+    });
+  } finally {
+    store.persistMessage(chatroomId, userMessageId);
+  }
+}
+
+/**
+ * Settles a research reply once its job has ended; null when the server no
+ * longer knows the job
+ */
+export function finishResearch(
+  chatroomId: string,
+  messageId: string,
+  job: ResearchJobDto | null,
+) {
+  const store = useAppStore.getState();
+  store.updateMessage(chatroomId, messageId, {
+    content: job?.report ?? "",
+    status:
+      job?.status === "completed"
+        ? "sent"
+        : job?.status === "cancelled"
+          ? "stopped"
+          : "failed",
+  });
+  store.persistMessage(chatroomId, messageId);
+}
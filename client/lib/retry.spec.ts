@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { backoffDelay, withRetry } from "./retry";
+
+describe("backoffDelay", () => {
+  it("should double the delay up to the maximum", () => {
+    expect([1, 2, 3, 4, 5].map((n) => backoffDelay(n, 500, 4000))).toEqual([
+      500, 1000, 2000, 4000, 4000,
+    ]);
+  });
+});
+
+describe("withRetry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should retry with growing delays until the task succeeds", async () => {
+    const task = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockResolvedValue("ok");
+
+    const result = withRetry(task, { baseDelayMs: 100 });
+    await vi.advanceTimersByTimeAsync(99);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+
+    await expect(result).resolves.toBe("ok");
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("should give up after the last attempt", async () => {
+    const task = vi.fn().mockRejectedValue(new Error("down"));
+
+    const result = withRetry(task, { attempts: 3, baseDelayMs: 10 });
+    const assertion = expect(result).rejects.toThrow("down");
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry errors that are not worth retrying", async () => {
+    const task = vi.fn().mockRejectedValue(new Error("bad request"));
+
+    await expect(withRetry(task, { shouldRetry: () => false })).rejects.toThrow(
+      "bad request",
+    );
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop waiting when aborted", async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(new Error("offline"));
+
+    const result = withRetry(task, { signal: controller.signal });
+    const assertion = expect(result).rejects.toThrow("stopped");
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort(new Error("stopped"));
+
+    await assertion;
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,64 @@
+export interface RetryOptions {
+  // Tries in total, the first one included
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Aborting stops waiting and rejects with the abort reason
+  signal?: AbortSignal;
+  // Whether a failure is worth another try; all are by default
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+/**
+ * Delay before retry number `retry` (1 for the first retry): doubles each
+ * time, up to `maxDelayMs`
+ */
+export function backoffDelay(
+  retry: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+) {
+  return Math.min(baseDelayMs * 2 ** (retry - 1), maxDelayMs);
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `task` until it succeeds, waiting longer after each failure.
+ * Rejects with the last error once attempts run out or a failure should
+ * not be retried.
+ */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  {
+    attempts = 4,
+    baseDelayMs = 500,
+    maxDelayMs = 8000,
+    signal,
+    shouldRetry = () => true,
+  }: RetryOptions = {},
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= attempts || signal?.aborted || !shouldRetry(error)) {
+        throw error;
+      }
+      await wait(backoffDelay(attempt, baseDelayMs, maxDelayMs), signal);
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { cn } from "./utils";
+import { cn, formatModelName } from "./utils";
 
 describe("cn function", () => {
   it("should merge classes correctly", () => {
@@ -30,3 +30,10 @@ describe("cn function", () => {
     );
   });
 });
+
+describe("formatModelName", () => {
+  it("should turn model ids into display names", () => {
+    expect(formatModelName("gemini-2.5-flash")).toBe("Gemini 2.5 Flash");
+    expect(formatModelName("gpt-4o-mini")).toBe("GPT 4o Mini");
+  });
+});
@@ -4,3 +4,18 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+const MODEL_NAME_WORDS: Record<string, string> = { gpt: "GPT" };
+
+/**
+ * Display name for a model id, e.g. "gemini-2.5-flash" -> "Gemini 2.5 Flash"
+ */
+export function formatModelName(id: string) {
+  return id
+    .split("-")
+    .map(
+      (word) =>
+        MODEL_NAME_WORDS[word] ?? word.charAt(0).toUpperCase() + word.slice(1),
+    )
+    .join(" ");
+}
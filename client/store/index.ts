@@ -1,5 +1,35 @@
 import { create } from "zustand";
+import type { GenerationSettings } from "@shared/api";
 import { persist } from "zustand/middleware";
+import {
+  pushChatroom,
+  pushChatroomCanvas,
+  pushChatroomChanges,
+  pushChatroomDeletion,
+  pushChatroomTitle,
+  pushMessage,
+} from "./sync";
+import { createAppStorage } from "./storage";
+import {
+  parsePersistedState,
+  PERSIST_VERSION,
+  type PersistedState,
+} from "./schema";
+import { migratePersistedState } from "./migrations";
+import { buildMessageTree, getBranch } from "@/lib/message-tree";
+import { abortAllGenerations } from "@/lib/generation";
+import { queryClient } from "@/lib/query-client";
+import {
+  applyChatroomChanges,
+  sortByActivity,
+  sortByTimestamp,
+  type ChatroomChanges,
+} from "./merge";
+
+const PERSIST_NAME = "gemini-app-storage";
+const appStorage = createAppStorage<PersistedState>();
+
+export type MessageStatus = "pending" | "sent" | "failed" | "stopped";
 
 export interface Message {
   id: string;
@@ -7,16 +37,61 @@ export interface Message {
   sender: "user" | "ai";
   timestamp: Date;
   imageUrl?: string;
+  // See MessageDto.parentId; edits and their replies form a tree
+  parentId?: string | null;
+  // See MessageDto.status; missing means "sent"
+  status?: MessageStatus;
+  // Model that wrote a reply
+  model?: string;
+  // Deep Research job the reply shows; its report becomes the content
+  researchJobId?: string;
+}
+
+export interface CanvasVersion {
+  id: string;
+  content: string;
+  // What made the version, e.g. "Edited by you"
+  note: string;
+  savedAt: Date;
+}
+
+// See CanvasDto; the last version is the current one
+export interface Canvas {
+  title: string;
+  language?: string;
+  versions: CanvasVersion[];
 }
 
 export interface Chatroom {
   id: string;
+  // Account the chatroom belongs to; only that user's chats are synced
+  userId?: string;
   title: string;
+  // Model replies are generated with; the server's default when unset
+  model?: string;
+  // Sent with every request; unset fields use the model's defaults
+  settings?: GenerationSettings;
+  // Gem the chat was started with; its name and icon are shown
+  gemId?: string;
+  // Document or code file edited next to the chat
+  canvas?: Canvas;
   messages: Message[];
+  // Set when the server holds messages older than the ones loaded here
+  hasOlderMessages?: boolean;
+  // Message whose branch is shown; the newest one's when unset
+  currentLeafId?: string;
   createdAt: Date;
   lastMessage?: Date;
 }
 
+// A reply being generated for a chatroom, or the error that ended it
+export interface Generation {
+  status: "pending" | "streaming" | "error";
+  // The reply receiving chunks, once the first one arrived
+  messageId?: string;
+  error?: string;
+}
+
 export interface User {
   id: string;
   phone: string;
@@ -29,32 +104,79 @@ interface AppState {
   user: User | null;
   isAuthenticating: boolean;
   otpSent: boolean;
+  // Number the pending OTP was sent to
+  otpPhone: { countryCode: string; phoneNumber: string } | null;
 
   // Chat state
   chatrooms: Chatroom[];
   activeChatroomId: string | null;
-  isTyping: boolean;
+  // By chatroom id; chatrooms without an entry are idle
+  generations: Record<string, Generation>;
   searchQuery: string;
 
   // UI state
   isSidebarOpen: boolean;
   theme: "light" | "dark";
+  // Problems found in saved state on load; the invalid parts were backed up
+  persistIssues: string[];
 
   // Actions
   setUser: (user: User | null) => void;
   setAuthenticating: (isAuthenticating: boolean) => void;
   setOtpSent: (otpSent: boolean) => void;
-
-  createChatroom: (title?: string) => Chatroom;
+  setOtpPhone: (
+    otpPhone: { countryCode: string; phoneNumber: string } | null,
+  ) => void;
+  // Clears local auth state; the server session must be ended separately
+  logout: (options?: { clearHistory?: boolean }) => void;
+
+  createChatroom: (
+    options?: Partial<Pick<Chatroom, "title" | "model" | "settings" | "gemId">>,
+  ) => Chatroom;
   deleteChatroom: (id: string) => void;
-  setActiveChatroom: (id: string) => void;
-
-  addMessage: (chatroomId: string, message: Omit<Message, "id">) => void;
-  setTyping: (isTyping: boolean) => void;
+  // Driven by the chat URL; null on /chat/new and for unknown ids
+  setActiveChatroom: (id: string | null) => void;
+
+  // Appends to the shown branch unless the message names its parent, and
+  // shows the branch of the new message
+  addMessage: (chatroomId: string, message: Omit<Message, "id">) => Message;
+  updateMessage: (
+    chatroomId: string,
+    messageId: string,
+    changes: Partial<Omit<Message, "id">>,
+  ) => void;
+  // Generates the chatroom's next replies with another model
+  setChatroomModel: (chatroomId: string, model: string) => void;
+  // Replaces the chatroom's generation settings
+  setChatroomSettings: (
+    chatroomId: string,
+    settings: GenerationSettings,
+  ) => void;
+  // Replaces the chatroom's canvas, history included
+  setChatroomCanvas: (chatroomId: string, canvas: Canvas) => void;
+  // Shows the branch holding this message
+  setCurrentLeaf: (chatroomId: string, messageId: string) => void;
+  // Saves the current version of a message to the server (e.g. once streamed)
+  persistMessage: (chatroomId: string, messageId: string) => void;
+  // Adds a page of older history in front of the loaded messages
+  prependMessages: (
+    chatroomId: string,
+    messages: Message[],
+    hasOlderMessages: boolean,
+  ) => void;
+  // Folds chatrooms fetched from the server into local state
+  mergeChatrooms: (remote: Chatroom[]) => void;
+  // Drops chatrooms stored for any other account, e.g. on switching users
+  keepOwnChatrooms: (userId: string) => void;
+  // Applies chatroom edits made in another tab
+  applyTabChanges: (changes: ChatroomChanges) => void;
+  // Null marks the chatroom idle again
+  setGeneration: (chatroomId: string, generation: Generation | null) => void;
 
   setSearchQuery: (query: string) => void;
   setSidebarOpen: (isOpen: boolean) => void;
   setTheme: (theme: "light" | "dark") => void;
+  clearPersistIssues: () => void;
 
   // Computed
   getActiveChatroom: () => Chatroom | null;
@@ -68,25 +190,50 @@ export const useAppStore = create<AppState>()(
       user: null,
       isAuthenticating: false,
       otpSent: false,
+      otpPhone: null,
 
       chatrooms: [],
       activeChatroomId: null,
-      isTyping: false,
+      generations: {},
       searchQuery: "",
 
       isSidebarOpen: true,
       theme: "light",
+      persistIssues: [],
 
       // Auth actions
       setUser: (user) => set({ user }),
       setAuthenticating: (isAuthenticating) => set({ isAuthenticating }),
       setOtpSent: (otpSent) => set({ otpSent }),
+      setOtpPhone: (otpPhone) => set({ otpPhone }),
+      logout: (options) => {
+        // Replies still streaming would otherwise keep writing to the store
+        abortAllGenerations();
+        // Gems and the like were fetched for this user
+        queryClient.clear();
+        set((state) => ({
+          user: null,
+          isAuthenticating: false,
+          otpSent: false,
+          otpPhone: null,
+          generations: {},
+          searchQuery: "",
+          chatrooms: options?.clearHistory ? [] : state.chatrooms,
+          activeChatroomId: options?.clearHistory
+            ? null
+            : state.activeChatroomId,
+        }));
+      },
 
       // Chat actions
-      createChatroom: (title) => {
+      createChatroom: ({ title, model, settings, gemId } = {}) => {
         const newChatroom: Chatroom = {
           id: crypto.randomUUID(),
+          userId: get().user?.id,
           title: title || "New Chat",
+          model,
+          settings,
+          gemId,
           messages: [],
           createdAt: new Date(),
         };
@@ -95,11 +242,16 @@ export const useAppStore = create<AppState>()(
           chatrooms: [newChatroom, ...state.chatrooms],
           activeChatroomId: newChatroom.id,
         }));
+        pushChatroom(newChatroom);
 
         return newChatroom;
       },
 
       deleteChatroom: (id) => {
+        if (get().chatrooms.some((room) => room.id === id)) {
+          pushChatroomDeletion(id);
+        }
+
         set((state) => {
           // First, ensure the chatroom exists
           const chatroomExists = state.chatrooms.some((room) => room.id === id);
@@ -127,45 +279,215 @@ export const useAppStore = create<AppState>()(
             ...state,
             chatrooms: remainingChatrooms,
             activeChatroomId: newActiveChatroomId,
-            // Reset any chat-related UI state
-            isTyping: false,
           };
         });
       },
 
-      setActiveChatroom: (id) => set({ activeChatroomId: id, isTyping: false }),
+      setActiveChatroom: (id) => set({ activeChatroomId: id }),
 
       addMessage: (chatroomId, messageData) => {
+        const room = get().chatrooms.find((room) => room.id === chatroomId);
+        let parentId = messageData.parentId;
+        if (parentId === undefined) {
+          const branch = getBranch(
+            buildMessageTree(room?.messages ?? []),
+            room?.currentLeafId,
+          );
+          parentId = branch[branch.length - 1]?.id ?? null;
+        }
         const message: Message = {
           ...messageData,
           id: crypto.randomUUID(),
+          parentId,
         };
 
+        // The first message names the chatroom
+        const newTitle =
+          room?.messages.length === 0
+            ? message.content.length > 50
+              ? message.content.substring(0, 50) + "..."
+              : message.content
+            : null;
+
         set((state) => ({
           chatrooms: state.chatrooms.map((room) =>
             room.id === chatroomId
               ? {
                   ...room,
                   messages: [...room.messages, message],
+                  currentLeafId: message.id,
                   lastMessage: message.timestamp,
-                  title:
-                    room.messages.length === 0
-                      ? message.content.length > 50
-                        ? message.content.substring(0, 50) + "..."
-                        : message.content
-                      : room.title,
+                  title: newTitle ?? room.title,
+                }
+              : room,
+          ),
+        }));
+
+        pushMessage(chatroomId, message);
+        if (newTitle) pushChatroomTitle(chatroomId, newTitle);
+
+        return message;
+      },
+
+      updateMessage: (chatroomId, messageId, changes) => {
+        set((state) => ({
+          chatrooms: state.chatrooms.map((room) =>
+            room.id === chatroomId
+              ? {
+                  ...room,
+                  messages: room.messages.map((msg) =>
+                    msg.id === messageId ? { ...msg, ...changes } : msg,
+                  ),
                 }
               : room,
           ),
         }));
       },
 
-      setTyping: (isTyping) => set({ isTyping }),
+      setChatroomModel: (chatroomId, model) => {
+        set((state) => ({
+          chatrooms: state.chatrooms.map((room) =>
+            room.id === chatroomId ? { ...room, model } : room,
+          ),
+        }));
+        pushChatroomChanges(chatroomId, { model });
+      },
+
+      setChatroomSettings: (chatroomId, settings) => {
+        set((state) => ({
+          chatrooms: state.chatrooms.map((room) =>
+            room.id === chatroomId ? { ...room, settings } : room,
+          ),
+        }));
+        pushChatroomChanges(chatroomId, { settings });
+      },
+
+      setChatroomCanvas: (chatroomId, canvas) => {
+        set((state) => ({
+          chatrooms: state.chatrooms.map((room) =>
+            room.id === chatroomId ? { ...room, canvas } : room,
+          ),
+        }));
+        pushChatroomCanvas(chatroomId, canvas);
+      },
+
+      setCurrentLeaf: (chatroomId, messageId) => {
+        set((state) => ({
+          chatrooms: state.chatrooms.map((room) =>
+            room.id === chatroomId && room.currentLeafId !== messageId
+              ? { ...room, currentLeafId: messageId }
+              : room,
+          ),
+        }));
+      },
+
+      persistMessage: (chatroomId, messageId) => {
+        const message = get()
+          .chatrooms.find((room) => room.id === chatroomId)
+          ?.messages.find((msg) => msg.id === messageId);
+        if (message) pushMessage(chatroomId, message);
+      },
+
+      prependMessages: (chatroomId, messages, hasOlderMessages) => {
+        set((state) => ({
+          chatrooms: state.chatrooms.map((room) => {
+            if (room.id !== chatroomId) return room;
+
+            const loaded = new Set(room.messages.map((msg) => msg.id));
+            return {
+              ...room,
+              messages: [
+                ...messages.filter((msg) => !loaded.has(msg.id)),
+                ...room.messages,
+              ],
+              hasOlderMessages,
+            };
+          }),
+        }));
+      },
+
+      mergeChatrooms: (remote) => {
+        set((state) => {
+          const local = new Map(state.chatrooms.map((room) => [room.id, room]));
+
+          for (const remoteRoom of remote) {
+            const localRoom = local.get(remoteRoom.id);
+            if (!localRoom) {
+              local.set(remoteRoom.id, {
+                ...remoteRoom,
+                userId: state.user?.id,
+              });
+              continue;
+            }
+
+            // Local copies win: they may hold edits not synced yet
+            const messages = new Map(
+              remoteRoom.messages.map((msg) => [msg.id, msg]),
+            );
+            for (const msg of localRoom.messages) messages.set(msg.id, msg);
+
+            const merged = sortByTimestamp([...messages.values()]);
+            local.set(remoteRoom.id, {
+              ...localRoom,
+              messages: merged,
+              hasOlderMessages: remoteRoom.hasOlderMessages,
+              lastMessage:
+                merged[merged.length - 1]?.timestamp ?? localRoom.lastMessage,
+            });
+          }
+
+          return { chatrooms: sortByActivity([...local.values()]) };
+        });
+      },
+
+      keepOwnChatrooms: (userId) => {
+        set((state) => {
+          const chatrooms = state.chatrooms.filter(
+            (room) => room.userId === userId,
+          );
+          if (chatrooms.length === state.chatrooms.length) return state;
+          return {
+            chatrooms,
+            activeChatroomId: chatrooms.some(
+              (room) => room.id === state.activeChatroomId,
+            )
+              ? state.activeChatroomId
+              : null,
+          };
+        });
+      },
+
+      applyTabChanges: (changes) => {
+        set((state) => {
+          const chatrooms = applyChatroomChanges(state.chatrooms, changes);
+          // The open chatroom may have been deleted in the other tab
+          const activeDeleted = changes.deletedRoomIds.includes(
+            state.activeChatroomId,
+          );
+          return {
+            chatrooms,
+            activeChatroomId: activeDeleted
+              ? (chatrooms[0]?.id ?? null)
+              : state.activeChatroomId,
+          };
+        });
+      },
+
+      setGeneration: (chatroomId, generation) =>
+        set((state) => {
+          const { [chatroomId]: _previous, ...generations } = state.generations;
+          return {
+            generations: generation
+              ? { ...generations, [chatroomId]: generation }
+              : generations,
+          };
+        }),
 
       // UI actions
       setSearchQuery: (query) => set({ searchQuery: query }),
       setSidebarOpen: (isOpen) => set({ isSidebarOpen: isOpen }),
       setTheme: (theme) => set({ theme }),
+      clearPersistIssues: () => set({ persistIssues: [] }),
 
       // Computed getters
       getActiveChatroom: () => {
@@ -185,49 +507,29 @@ export const useAppStore = create<AppState>()(
       },
     }),
     {
-      name: "gemini-app-storage",
-      partialize: (state) => ({
+      name: PERSIST_NAME,
+      version: PERSIST_VERSION,
+      migrate: migratePersistedState,
+      // Runs on every load, migrated or not: only valid data reaches the store
+      merge: (persisted, current) => {
+        if (persisted === undefined) return current;
+
+        const { state, issues } = parsePersistedState(persisted);
+        if (issues.length > 0) {
+          console.warn("Saved state had invalid parts:", issues);
+          appStorage
+            .backup(PERSIST_NAME, persisted)
+            .catch((error) => console.error("Failed to back up state:", error));
+        }
+        return { ...current, ...state, persistIssues: issues };
+      },
+      partialize: (state): PersistedState => ({
         user: state.user,
         chatrooms: state.chatrooms,
         activeChatroomId: state.activeChatroomId,
         theme: state.theme,
       }),
-      storage: {
-        getItem: (name) => {
-          const item = localStorage.getItem(name);
-          if (!item) return null;
-
-          try {
-            const parsed = JSON.parse(item);
-            // Convert date strings back to Date objects
-            if (parsed.state?.chatrooms) {
-              parsed.state.chatrooms = parsed.state.chatrooms.map(
-                (room: any) => ({
-                  ...room,
-                  createdAt: new Date(room.createdAt),
-                  lastMessage: room.lastMessage
-                    ? new Date(room.lastMessage)
-                    : undefined,
-                  messages:
-                    room.messages?.map((msg: any) => ({
-                      ...msg,
-                      timestamp: new Date(msg.timestamp),
-                    })) || [],
-                }),
-              );
-            }
-            return parsed;
-          } catch {
-            return null;
-          }
-        },
-        setItem: (name, value) => {
-          localStorage.setItem(name, JSON.stringify(value));
-        },
-        removeItem: (name) => {
-          localStorage.removeItem(name);
-        },
-      },
+      storage: appStorage,
     },
   ),
 );
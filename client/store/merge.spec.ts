@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { Chatroom, Message } from "./index";
+import { applyChatroomChanges, diffChatrooms } from "./merge";
+
+const message = (id: string, minute: number, content = id): Message => ({
+  id,
+  content,
+  sender: "user",
+  timestamp: new Date(Date.UTC(2025, 0, 1, 10, minute)),
+});
+
+const room = (id: string, messages: Message[]): Chatroom => ({
+  id,
+  title: id,
+  messages,
+  createdAt: new Date(Date.UTC(2025, 0, 1)),
+  lastMessage: messages[messages.length - 1]?.timestamp,
+});
+
+describe("chatroom merging across tabs", () => {
+  it("should only describe what changed", () => {
+    const m1 = message("m1", 1);
+    const untouched = room("b", [message("b1", 1)]);
+    const prev = [room("a", [m1]), untouched, room("gone", [])];
+    const next = [room("a", [m1, message("m2", 2)]), untouched];
+
+    expect(diffChatrooms(prev, next)).toEqual({
+      rooms: [
+        {
+          room: expect.objectContaining({ id: "a" }),
+          messages: [message("m2", 2)],
+          removedMessageIds: [],
+        },
+      ],
+      deletedRoomIds: ["gone"],
+    });
+    expect(diffChatrooms(next, next)).toBeNull();
+  });
+
+  it("should keep messages sent concurrently in both tabs", () => {
+    const shared = message("m1", 1);
+    const tabA = [room("a", [shared, message("from-a", 3)])];
+    const tabB = [room("a", [shared, message("from-b", 2)])];
+
+    const changesFromA = diffChatrooms([room("a", [shared])], tabA);
+    const merged = applyChatroomChanges(tabB, changesFromA);
+
+    expect(merged[0].messages.map((msg) => msg.id)).toEqual([
+      "m1",
+      "from-b",
+      "from-a",
+    ]);
+    expect(merged[0].lastMessage).toEqual(message("from-a", 3).timestamp);
+  });
+
+  it("should replace edited messages and drop deleted rooms", () => {
+    const partial = message("m1", 1, "Par");
+    const local = [room("a", [partial]), room("b", [])];
+    const remote = [room("a", [{ ...partial, content: "Paris" }])];
+
+    const merged = applyChatroomChanges(local, diffChatrooms(local, remote));
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].messages[0].content).toBe("Paris");
+  });
+});
@@ -0,0 +1,95 @@
+import type { Chatroom, Message } from "./index";
+
+/**
+ * Chatroom changes between two versions of the store, small enough to send
+ * to other tabs on every edit. Unchanged rooms and messages are left out.
+ */
+export interface ChatroomChanges {
+  rooms: {
+    room: Omit<Chatroom, "messages">;
+    // New or edited messages
+    messages: Message[];
+    removedMessageIds: string[];
+  }[];
+  deletedRoomIds: string[];
+}
+
+const activity = (room: Chatroom) =>
+  (room.lastMessage ?? room.createdAt).getTime();
+
+export function sortByActivity(rooms: Chatroom[]) {
+  return [...rooms].sort((a, b) => activity(b) - activity(a));
+}
+
+export function sortByTimestamp(messages: Message[]) {
+  return [...messages].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+  );
+}
+
+// Store updates are immutable, so anything edited is a new object
+export function diffChatrooms(
+  prev: Chatroom[],
+  next: Chatroom[],
+): ChatroomChanges | null {
+  const prevById = new Map(prev.map((room) => [room.id, room]));
+  const nextIds = new Set(next.map((room) => room.id));
+  const changes: ChatroomChanges = {
+    rooms: [],
+    deletedRoomIds: prev
+      .filter((room) => !nextIds.has(room.id))
+      .map((room) => room.id),
+  };
+
+  for (const room of next) {
+    const before = prevById.get(room.id);
+    if (before === room) continue;
+
+    const { messages, ...meta } = room;
+    const beforeMessages = new Set(before?.messages);
+    const messageIds = new Set(messages.map((msg) => msg.id));
+    changes.rooms.push({
+      room: meta,
+      messages: messages.filter((msg) => !beforeMessages.has(msg)),
+      removedMessageIds: (before?.messages ?? [])
+        .filter((msg) => !messageIds.has(msg.id))
+        .map((msg) => msg.id),
+    });
+  }
+
+  return changes.rooms.length > 0 || changes.deletedRoomIds.length > 0
+    ? changes
+    : null;
+}
+
+/**
+ * Folds changes made elsewhere into `rooms`. Messages are merged by id, so
+ * messages only this side has survive; an incoming message replaces the
+ * local copy, as it is the more recent edit.
+ */
+export function applyChatroomChanges(
+  rooms: Chatroom[],
+  changes: ChatroomChanges,
+): Chatroom[] {
+  const byId = new Map(rooms.map((room) => [room.id, room]));
+  for (const id of changes.deletedRoomIds) byId.delete(id);
+
+  for (const change of changes.rooms) {
+    const local = byId.get(change.room.id);
+    const messages = new Map(local?.messages.map((msg) => [msg.id, msg]));
+    for (const id of change.removedMessageIds) messages.delete(id);
+    for (const msg of change.messages) messages.set(msg.id, msg);
+
+    const lastMessage = [local?.lastMessage, change.room.lastMessage]
+      .filter(Boolean)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+    byId.set(change.room.id, {
+      ...local,
+      ...change.room,
+      lastMessage,
+      messages: sortByTimestamp([...messages.values()]),
+    });
+  }
+
+  return sortByActivity([...byId.values()]);
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { migratePersistedState } from "./migrations";
+import { parsePersistedState } from "./schema";
+
+const storedRoom = {
+  id: "room-1",
+  title: "Trip planning",
+  createdAt: "2025-01-01T10:00:00.000Z",
+  lastMessage: "2025-01-01T10:05:00.000Z",
+  messages: [
+    {
+      id: "m1",
+      content: "Where should I go?",
+      sender: "user",
+      timestamp: "2025-01-01T10:05:00.000Z",
+    },
+  ],
+};
+
+describe("persisted state", () => {
+  it("should load unversioned localStorage state", () => {
+    const legacy = {
+      user: {
+        id: "u1",
+        phone: "4155550123",
+        countryCode: "+1",
+        isAuthenticated: true,
+      },
+      chatrooms: [
+        storedRoom,
+        { ...storedRoom, id: "room-2", messages: undefined },
+      ],
+      activeChatroomId: "room-1",
+      theme: "dark",
+    };
+
+    const { state, issues } = parsePersistedState(
+      migratePersistedState(legacy, 0),
+    );
+
+    expect(issues).toEqual([]);
+    expect(state.chatrooms).toHaveLength(2);
+    expect(state.chatrooms[0].createdAt).toEqual(
+      new Date("2025-01-01T10:00:00.000Z"),
+    );
+    expect(state.chatrooms[0].messages[0].timestamp).toBeInstanceOf(Date);
+    expect(state.chatrooms[1].messages).toEqual([]);
+    expect(state.activeChatroomId).toBe("room-1");
+    expect(state.theme).toBe("dark");
+  });
+
+  it("should assign stored chatrooms to the user signed in at the time", () => {
+    const signedIn = migratePersistedState(
+      { user: { id: "u1" }, chatrooms: [storedRoom] },
+      1,
+    );
+    const signedOut = migratePersistedState(
+      { user: null, chatrooms: [storedRoom] },
+      1,
+    );
+
+    expect(parsePersistedState(signedIn).state.chatrooms[0].userId).toBe("u1");
+    expect(
+      parsePersistedState(signedOut).state.chatrooms[0].userId,
+    ).toBeUndefined();
+  });
+
+  it("should keep the valid parts of corrupted state", () => {
+    const { state, issues } = parsePersistedState({
+      user: { id: "u1" },
+      chatrooms: [
+        {
+          ...storedRoom,
+          messages: [
+            ...storedRoom.messages,
+            { id: "m2", content: "?", sender: "bot", timestamp: "later" },
+          ],
+        },
+        { id: "room-2", title: "No dates", messages: [] },
+      ],
+      activeChatroomId: "room-2",
+      theme: "dark",
+    });
+
+    expect(state.user).toBeNull();
+    expect(state.chatrooms.map((room) => room.id)).toEqual(["room-1"]);
+    expect(state.chatrooms[0].messages.map((m) => m.id)).toEqual(["m1"]);
+    expect(state.activeChatroomId).toBeNull();
+    expect(state.theme).toBe("dark");
+    expect(issues).toHaveLength(3);
+    expect(issues[1]).toMatch(/^chatrooms\.0\.messages\.1 at sender:/);
+  });
+
+  it("should reset state that is not an object", () => {
+    const { state, issues } = parsePersistedState("garbage");
+
+    expect(state).toEqual({
+      user: null,
+      chatrooms: [],
+      activeChatroomId: null,
+      theme: "light",
+    });
+    expect(issues).toEqual(["state: not an object"]);
+  });
+
+  it("should mark messages that were still pending as failed", () => {
+    const { state } = parsePersistedState({
+      chatrooms: [
+        {
+          ...storedRoom,
+          messages: [{ ...storedRoom.messages[0], status: "pending" }],
+        },
+      ],
+    });
+
+    expect(state.chatrooms[0].messages[0].status).toBe("failed");
+  });
+
+  it("should keep research replies pending, since their job runs on", () => {
+    const { state } = parsePersistedState({
+      chatrooms: [
+        {
+          ...storedRoom,
+          messages: [
+            {
+              ...storedRoom.messages[0],
+              status: "pending",
+              researchJobId: "job-1",
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(state.chatrooms[0].messages[0].status).toBe("pending");
+  });
+});
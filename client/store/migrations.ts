@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { chatroomSchema, PERSIST_VERSION } from "./schema";
+
+// Just enough structure to reach the parts a migration rewrites
+const recordSchema = z.record(z.unknown());
+const withChatroomsSchema = z
+  .object({ chatrooms: z.array(z.unknown()) })
+  .passthrough();
+const withUserSchema = z.object({ user: z.object({ id: z.string() }) });
+
+/**
+ * Upgrades persisted state one version at a time: the migration at key N
+ * turns version N into version N + 1. Migrations get whatever was stored,
+ * so they must not assume it is valid; the result is validated afterwards.
+ */
+export const persistMigrations: Record<number, (state: unknown) => unknown> = {
+  // Unversioned state from before validation: chatrooms synced from older
+  // builds could lack a message list
+  0: (state) => {
+    const parsed = withChatroomsSchema.safeParse(state);
+    if (!parsed.success) return state;
+    return {
+      ...parsed.data,
+      chatrooms: parsed.data.chatrooms.map((value) => {
+        const room = recordSchema.safeParse(value);
+        if (!room.success) return value;
+        const messages = chatroomSchema.shape.messages.safeParse(
+          room.data.messages,
+        );
+        return {
+          ...room.data,
+          messages: messages.success ? messages.data : [],
+        };
+      }),
+    };
+  },
+  // Chatrooms were not tied to an account: they belong to whoever was signed
+  // in when they were stored, and to no one when signed out
+  1: (state) => {
+    const parsed = withChatroomsSchema.safeParse(state);
+    const user = withUserSchema.safeParse(state);
+    if (!parsed.success || !user.success) return state;
+    return {
+      ...parsed.data,
+      chatrooms: parsed.data.chatrooms.map((value) => {
+        const room = recordSchema.safeParse(value);
+        return room.success
+          ? { ...room.data, userId: user.data.user.id }
+          : value;
+      }),
+    };
+  },
+};
+
+export function migratePersistedState(state: unknown, version: number) {
+  let migrated = state;
+  for (let from = version; from < PERSIST_VERSION; from++) {
+    const migration = persistMigrations[from];
+    if (!migration) {
+      console.warn(`No migration for persisted state version ${from}`);
+      break;
+    }
+    try {
+      migrated = migration(migrated);
+    } catch (error) {
+      // Validation decides what can still be kept
+      console.error(`Persisted state migration ${from} failed:`, error);
+      break;
+    }
+  }
+  return migrated;
+}
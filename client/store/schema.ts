@@ -0,0 +1,158 @@
+import { z } from "zod";
+import type { Chatroom, Message, User } from "./index";
+
+/**
+ * Shape of the persisted part of the app store, checked on every load.
+ * When adding a field to Chatroom or Message, add it here too and, if old
+ * data needs a value for it, bump PERSIST_VERSION and add a migration.
+ */
+
+export const PERSIST_VERSION = 2;
+
+export interface PersistedState {
+  user: User | null;
+  chatrooms: Chatroom[];
+  activeChatroomId: string | null;
+  theme: "light" | "dark";
+}
+
+// Dates come back as strings from JSON (the localStorage fallback) and as
+// Date objects from IndexedDB
+const dateSchema = z.coerce.date();
+
+const messageSchema = z.object({
+  id: z.string().min(1),
+  content: z.string(),
+  sender: z.enum(["user", "ai"]),
+  timestamp: dateSchema,
+  imageUrl: z.string().optional(),
+  parentId: z.string().nullable().optional(),
+  status: z.enum(["pending", "sent", "failed", "stopped"]).optional(),
+  model: z.string().optional(),
+  researchJobId: z.string().optional(),
+});
+
+const settingsSchema = z.object({
+  systemInstruction: z.string().optional(),
+  temperature: z.number().optional(),
+  topP: z.number().optional(),
+  maxOutputTokens: z.number().optional(),
+  stopSequences: z.array(z.string()).optional(),
+});
+
+const canvasSchema = z.object({
+  title: z.string(),
+  language: z.string().optional(),
+  versions: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        content: z.string(),
+        note: z.string(),
+        savedAt: dateSchema,
+      }),
+    )
+    .min(1),
+});
+
+// Messages are checked one by one so a single bad one does not cost the room
+export const chatroomSchema = z.object({
+  id: z.string().min(1),
+  userId: z.string().optional(),
+  title: z.string(),
+  model: z.string().optional(),
+  settings: settingsSchema.optional(),
+  gemId: z.string().optional(),
+  canvas: canvasSchema.optional(),
+  messages: z.array(z.unknown()),
+  hasOlderMessages: z.boolean().optional(),
+  currentLeafId: z.string().optional(),
+  createdAt: dateSchema,
+  lastMessage: dateSchema.optional(),
+});
+
+const userSchema = z.object({
+  id: z.string().min(1),
+  phone: z.string(),
+  countryCode: z.string(),
+  isAuthenticated: z.boolean(),
+});
+
+const themeSchema = z.enum(["light", "dark"]);
+
+export interface ParsedState {
+  state: PersistedState;
+  /** What had to be dropped or reset; empty when the data was valid */
+  issues: string[];
+}
+
+/**
+ * Validates stored state, keeping every part that is valid. Invalid
+ * chatrooms and messages are dropped, other invalid fields reset.
+ */
+export function parsePersistedState(raw: unknown): ParsedState {
+  const issues: string[] = [];
+  const report = (label: string, error: z.ZodError) => {
+    const issue = error.issues[0];
+    const path = issue?.path.length ? ` at ${issue.path.join(".")}` : "";
+    issues.push(`${label}${path}: ${issue?.message ?? "invalid"}`);
+  };
+
+  const input =
+    typeof raw === "object" && raw !== null
+      ? (raw as Record<string, unknown>)
+      : {};
+  if (input !== raw) issues.push("state: not an object");
+
+  let user: User | null = null;
+  if (input.user != null) {
+    const parsed = userSchema.safeParse(input.user);
+    if (parsed.success) user = parsed.data as User;
+    else report("user", parsed.error);
+  }
+
+  let theme: PersistedState["theme"] = "light";
+  if (input.theme !== undefined) {
+    const parsed = themeSchema.safeParse(input.theme);
+    if (parsed.success) theme = parsed.data;
+    else report("theme", parsed.error);
+  }
+
+  const chatrooms: Chatroom[] = [];
+  if (input.chatrooms !== undefined && !Array.isArray(input.chatrooms)) {
+    issues.push("chatrooms: not an array");
+  }
+  const rooms = Array.isArray(input.chatrooms) ? input.chatrooms : [];
+  for (const [index, value] of rooms.entries()) {
+    const room = chatroomSchema.safeParse(value);
+    if (!room.success) {
+      report(`chatrooms.${index}`, room.error);
+      continue;
+    }
+
+    const messages: Message[] = [];
+    for (const [messageIndex, message] of room.data.messages.entries()) {
+      const parsed = messageSchema.safeParse(message);
+      if (parsed.success) {
+        // Requests do not survive a reload, so whatever was pending failed;
+        // research runs on the server and is picked up again
+        messages.push(
+          parsed.data.status === "pending" && !parsed.data.researchJobId
+            ? ({ ...parsed.data, status: "failed" } as Message)
+            : (parsed.data as Message),
+        );
+      } else {
+        report(`chatrooms.${index}.messages.${messageIndex}`, parsed.error);
+      }
+    }
+    chatrooms.push({ ...(room.data as Chatroom), messages });
+  }
+
+  const activeChatroomId =
+    typeof input.activeChatroomId === "string" &&
+    chatrooms.some((room) => room.id === input.activeChatroomId)
+      ? input.activeChatroomId
+      : null;
+
+  return { state: { user, chatrooms, activeChatroomId, theme }, issues };
+}
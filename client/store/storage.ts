@@ -0,0 +1,314 @@
+import type { PersistStorage, StorageValue } from "zustand/middleware";
+import type { Chatroom } from "./index";
+
+/**
+ * Persistence for the app store. State lives in IndexedDB, with message
+ * images split out as Blobs into their own object store so they neither
+ * count against localStorage's ~5MB nor get rewritten on every change.
+ * Falls back to localStorage where IndexedDB is unavailable.
+ */
+
+type PersistedChats = { chatrooms?: Chatroom[] };
+
+const DB_NAME = "gemini-app";
+const DB_VERSION = 1;
+const STATE_STORE = "state";
+const IMAGE_STORE = "images";
+// Stands in for an image's data URL in the stored state
+const IMAGE_REF_PREFIX = "idb-image:";
+
+let quotaExceededHandler: (() => void) | null = null;
+
+/**
+ * Called when the browser refuses to store more data. The app keeps
+ * working from memory; only what did not fit is missing after a reload.
+ */
+export function setStorageQuotaHandler(handler: (() => void) | null) {
+  quotaExceededHandler = handler;
+}
+
+function isQuotaError(error: unknown) {
+  return (
+    error instanceof DOMException &&
+    (error.name === "QuotaExceededError" ||
+      error.name === "NS_ERROR_DOM_QUOTA_REACHED")
+  );
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STATE_STORE);
+    request.result.createObjectStore(IMAGE_STORE);
+  };
+  return requestToPromise(request);
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function dataUrlToBlob(dataUrl: string) {
+  return (await fetch(dataUrl)).blob();
+}
+
+// Replaces every image in the state, keeping the rest of the object as is.
+// Stored data is only validated later by the store, so skip what is malformed
+function mapImages<S extends PersistedChats>(
+  state: S,
+  map: (imageUrl: string, messageId: string) => string | undefined,
+): S {
+  if (!Array.isArray(state?.chatrooms)) return state;
+  return {
+    ...state,
+    chatrooms: state.chatrooms.map((room) =>
+      Array.isArray(room?.messages)
+        ? {
+            ...room,
+            messages: room.messages.map((message) =>
+              typeof message?.imageUrl === "string"
+                ? { ...message, imageUrl: map(message.imageUrl, message.id) }
+                : message,
+            ),
+          }
+        : room,
+    ),
+  };
+}
+
+const backupKey = (name: string) => `${name}-backup`;
+
+function writeLocalStorage(key: string, value: string) {
+  try {
+    localStorage.setItem(key, value);
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    quotaExceededHandler?.();
+  }
+}
+
+/**
+ * The localStorage format: JSON, so dates come back as strings until the
+ * store's schema turns them into Dates
+ */
+function readLocalStorage<S>(name: string): StorageValue<S> | null {
+  const item = localStorage.getItem(name);
+  if (!item) return null;
+
+  try {
+    return JSON.parse(item);
+  } catch (error) {
+    console.error("Saved app state is corrupt; keeping a backup:", error);
+    writeLocalStorage(backupKey(name), item);
+    return null;
+  }
+}
+
+/**
+ * PersistStorage that can also set aside a copy of state that failed to
+ * load, so a reset does not destroy it
+ */
+export interface AppStorage<S> extends PersistStorage<S> {
+  backup(name: string, value: unknown): Promise<void>;
+}
+
+export function createLocalStorage<S>(): AppStorage<S> {
+  return {
+    getItem: (name) => readLocalStorage<S>(name),
+    setItem: (name, value) => writeLocalStorage(name, JSON.stringify(value)),
+    removeItem: (name) => localStorage.removeItem(name),
+    backup: async (name, value) =>
+      writeLocalStorage(backupKey(name), JSON.stringify(value)),
+  };
+}
+
+export function createIndexedDbStorage<
+  S extends PersistedChats,
+>(): AppStorage<S> {
+  const database = openDatabase();
+  // Message ids whose image is already in the image store
+  let storedImages = new Set<string>();
+  let quotaReported = false;
+
+  const write = async (name: string, value: StorageValue<S>) => {
+    const db = await database;
+    const referenced = new Set<string>();
+    const newImages: [string, string][] = [];
+
+    const state = mapImages(value.state, (imageUrl, messageId) => {
+      if (!imageUrl.startsWith("data:")) return imageUrl;
+      referenced.add(messageId);
+      if (!storedImages.has(messageId)) newImages.push([messageId, imageUrl]);
+      return `${IMAGE_REF_PREFIX}${messageId}`;
+    });
+    const blobs = await Promise.all(
+      newImages.map(
+        async ([id, dataUrl]) => [id, await dataUrlToBlob(dataUrl)] as const,
+      ),
+    );
+
+    const transaction = db.transaction([STATE_STORE, IMAGE_STORE], "readwrite");
+    const images = transaction.objectStore(IMAGE_STORE);
+    for (const [id, blob] of blobs) images.put(blob, id);
+    for (const id of storedImages) {
+      if (!referenced.has(id)) images.delete(id);
+    }
+    transaction.objectStore(STATE_STORE).put({ ...value, state }, name);
+    await transactionDone(transaction);
+
+    storedImages = referenced;
+  };
+
+  // When images do not fit, the state is still saved without them
+  const writeWithoutNewImages = (name: string, value: StorageValue<S>) =>
+    write(name, {
+      ...value,
+      state: mapImages(value.state, (imageUrl, messageId) =>
+        imageUrl.startsWith("data:") && !storedImages.has(messageId)
+          ? undefined
+          : imageUrl,
+      ),
+    });
+
+  const save = async (name: string, value: StorageValue<S>) => {
+    try {
+      await write(name, value);
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      if (!quotaReported) {
+        quotaReported = true;
+        quotaExceededHandler?.();
+      }
+      await writeWithoutNewImages(name, value);
+    }
+  };
+
+  // Writes are serialized and coalesced: while one is running, only the
+  // latest of the values set in the meantime is written next
+  let pending: { name: string; value: StorageValue<S> } | null = null;
+  let flushing: Promise<void> | null = null;
+  const flush = async () => {
+    while (pending) {
+      const { name, value } = pending;
+      pending = null;
+      try {
+        await save(name, value);
+      } catch (error) {
+        console.error("Failed to save app state:", error);
+      }
+    }
+    flushing = null;
+  };
+
+  return {
+    getItem: async (name) => {
+      const db = await database;
+      const stored: StorageValue<S> | undefined = await requestToPromise(
+        db.transaction(STATE_STORE).objectStore(STATE_STORE).get(name),
+      );
+
+      // One-time move of history saved by the localStorage version
+      if (!stored) {
+        const legacy = readLocalStorage<S>(name);
+        if (legacy) {
+          await save(name, legacy);
+          localStorage.removeItem(name);
+        }
+        return legacy;
+      }
+
+      const refs: string[] = [];
+      mapImages(stored.state, (imageUrl, messageId) => {
+        if (imageUrl.startsWith(IMAGE_REF_PREFIX)) refs.push(messageId);
+        return imageUrl;
+      });
+      const images = db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE);
+      const blobs = await Promise.all(
+        refs.map((id) => requestToPromise<Blob | undefined>(images.get(id))),
+      );
+      const dataUrls = new Map<string, string>();
+      for (const [index, blob] of blobs.entries()) {
+        if (blob) dataUrls.set(refs[index], await blobToDataUrl(blob));
+      }
+      storedImages = new Set(dataUrls.keys());
+
+      return {
+        ...stored,
+        state: mapImages(stored.state, (imageUrl, messageId) =>
+          imageUrl.startsWith(IMAGE_REF_PREFIX)
+            ? dataUrls.get(messageId)
+            : imageUrl,
+        ),
+      };
+    },
+    setItem: (name, value) => {
+      pending = { name, value };
+      flushing ??= flush();
+      return flushing;
+    },
+    removeItem: async (name) => {
+      const db = await database;
+      const transaction = db.transaction(
+        [STATE_STORE, IMAGE_STORE],
+        "readwrite",
+      );
+      transaction.objectStore(STATE_STORE).delete(name);
+      transaction.objectStore(IMAGE_STORE).clear();
+      await transactionDone(transaction);
+      storedImages = new Set();
+    },
+    // Images are inlined as data URLs by getItem, so the copy is complete
+    backup: async (name, value) => {
+      const db = await database;
+      const transaction = db.transaction(STATE_STORE, "readwrite");
+      transaction.objectStore(STATE_STORE).put(value, backupKey(name));
+      await transactionDone(transaction);
+    },
+  };
+}
+
+/**
+ * IndexedDB where the browser offers it, localStorage otherwise (including
+ * when opening the database fails, as in some private browsing modes)
+ */
+export function createAppStorage<S extends PersistedChats>(): AppStorage<S> {
+  const local = createLocalStorage<S>();
+  if (typeof indexedDB === "undefined") return local;
+
+  const indexedDb = createIndexedDbStorage<S>();
+  let storage = indexedDb;
+  return {
+    getItem: async (name) => {
+      try {
+        return await indexedDb.getItem(name);
+      } catch (error) {
+        console.warn("IndexedDB unavailable, using localStorage:", error);
+        storage = local;
+        return local.getItem(name);
+      }
+    },
+    setItem: (name, value) => storage.setItem(name, value),
+    removeItem: (name) => storage.removeItem(name),
+    backup: (name, value) => storage.backup(name, value),
+  };
+}
@@ -0,0 +1,175 @@
+import type {
+  CanvasDto,
+  ChatroomDto,
+  MessageDto,
+  MessagesResponse,
+  UpdateChatroomRequest,
+} from "@shared/api";
+import * as api from "@/lib/api";
+import type { Canvas, Chatroom, Message } from "./index";
+
+/**
+ * Mirrors local chat changes to the server.
+ * Writes are fire-and-forget: the store stays the source of truth for the
+ * UI, and every write is idempotent so a later sync converges.
+ */
+
+// Messages fetched per request, both on sync and when scrolling back
+export const HISTORY_PAGE_SIZE = 50;
+
+// Writes for the same chatroom run in order, so a message is never
+// posted before the chatroom that holds it exists
+const queues = new Map<string, Promise<unknown>>();
+
+function enqueue(chatroomId: string, task: () => Promise<unknown>) {
+  const previous = queues.get(chatroomId) ?? Promise.resolve();
+  const next = previous
+    .then(task)
+    .catch((error) => console.error("Failed to sync chat:", error));
+  queues.set(chatroomId, next);
+  next.finally(() => {
+    if (queues.get(chatroomId) === next) queues.delete(chatroomId);
+  });
+}
+
+/**
+ * Resolves once the chatroom's queued writes have been tried, for requests
+ * that need the chatroom to exist on the server
+ */
+export function whenSynced(chatroomId: string): Promise<unknown> {
+  return queues.get(chatroomId) ?? Promise.resolve();
+}
+
+export function toMessageDto(message: Message): MessageDto {
+  return {
+    id: message.id,
+    sender: message.sender,
+    content: message.content,
+    imageUrl: message.imageUrl,
+    parentId: message.parentId,
+    status: message.status,
+    model: message.model,
+    researchJobId: message.researchJobId,
+    timestamp: message.timestamp.toISOString(),
+  };
+}
+
+export function fromMessageDto(dto: MessageDto): Message {
+  return {
+    id: dto.id,
+    sender: dto.sender,
+    content: dto.content,
+    imageUrl: dto.imageUrl,
+    parentId: dto.parentId,
+    status: dto.status,
+    model: dto.model,
+    researchJobId: dto.researchJobId,
+    timestamp: new Date(dto.timestamp),
+  };
+}
+
+function toCanvasDto(canvas: Canvas): CanvasDto {
+  return {
+    title: canvas.title,
+    language: canvas.language,
+    versions: canvas.versions.map((version) => ({
+      ...version,
+      savedAt: version.savedAt.toISOString(),
+    })),
+  };
+}
+
+function fromCanvasDto(dto: CanvasDto): Canvas {
+  return {
+    title: dto.title,
+    language: dto.language,
+    versions: dto.versions.map((version) => ({
+      ...version,
+      savedAt: new Date(version.savedAt),
+    })),
+  };
+}
+
+function fromChatroomDto(
+  dto: ChatroomDto,
+  { messages, hasMore }: MessagesResponse,
+): Chatroom {
+  return {
+    id: dto.id,
+    title: dto.title,
+    model: dto.model,
+    settings: dto.settings,
+    gemId: dto.gemId,
+    canvas: dto.canvas && fromCanvasDto(dto.canvas),
+    messages: messages.map(fromMessageDto),
+    hasOlderMessages: hasMore,
+    createdAt: new Date(dto.createdAt),
+    lastMessage: dto.lastMessageAt ? new Date(dto.lastMessageAt) : undefined,
+  };
+}
+
+export function pushChatroom(room: Chatroom) {
+  enqueue(room.id, () =>
+    api.createChatroom({
+      id: room.id,
+      title: room.title,
+      model: room.model,
+      settings: room.settings,
+      gemId: room.gemId,
+      createdAt: room.createdAt.toISOString(),
+    }),
+  );
+}
+
+export function pushChatroomCanvas(chatroomId: string, canvas: Canvas) {
+  enqueue(chatroomId, () =>
+    api.updateChatroom(chatroomId, { canvas: toCanvasDto(canvas) }),
+  );
+}
+
+export function pushChatroomTitle(chatroomId: string, title: string) {
+  enqueue(chatroomId, () => api.updateChatroom(chatroomId, { title }));
+}
+
+export function pushChatroomChanges(
+  chatroomId: string,
+  changes: UpdateChatroomRequest,
+) {
+  enqueue(chatroomId, () => api.updateChatroom(chatroomId, changes));
+}
+
+export function pushChatroomDeletion(chatroomId: string) {
+  enqueue(chatroomId, () => api.deleteChatroom(chatroomId));
+}
+
+export function pushMessage(chatroomId: string, message: Message) {
+  enqueue(chatroomId, () => api.saveMessage(chatroomId, toMessageDto(message)));
+}
+
+/**
+ * Downloads every chatroom of the signed-in user with its latest messages;
+ * older ones are fetched on demand with pullOlderMessages()
+ */
+export async function pullChatrooms(): Promise<Chatroom[]> {
+  const { chatrooms } = await api.fetchChatrooms();
+
+  return Promise.all(
+    chatrooms.map(async (dto) =>
+      fromChatroomDto(
+        dto,
+        await api.fetchMessages(dto.id, { limit: HISTORY_PAGE_SIZE }),
+      ),
+    ),
+  );
+}
+
+/**
+ * Fetches the page of messages right before `beforeId`, oldest first
+ */
+export async function pullOlderMessages(chatroomId: string, beforeId: string) {
+  const { messages, hasMore } = await api.fetchMessages(chatroomId, {
+    before: beforeId,
+    limit: HISTORY_PAGE_SIZE,
+  });
+  return { messages: messages.map(fromMessageDto), hasMore };
+}
@@ -0,0 +1,86 @@
+import { useAppStore, type User } from "./index";
+import { diffChatrooms, type ChatroomChanges } from "./merge";
+
+/**
+ * Keeps the app state of tabs open on the same origin in step. Each tab
+ * broadcasts what it changed, and the others merge it in rather than
+ * overwriting their own state, so nothing one tab did is lost.
+ */
+
+const CHANNEL_NAME = "gemini-app-sync";
+
+type TabMessage =
+  // Sent by a tab that just loaded; the others answer with everything
+  | { type: "hello" }
+  | {
+      type: "changes";
+      chatrooms?: ChatroomChanges;
+      user?: User | null;
+      theme?: "light" | "dark";
+    };
+
+/**
+ * Starts syncing once the store has loaded its saved state, and returns a
+ * function that stops it
+ */
+export function startTabSync(): () => void {
+  if (typeof BroadcastChannel === "undefined") return () => {};
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  let applyingRemote = false;
+  let unsubscribe = () => {};
+
+  const post = (message: TabMessage) => channel.postMessage(message);
+
+  const applyRemote = (message: TabMessage) => {
+    const store = useAppStore.getState();
+    if (message.type === "hello") {
+      const chatrooms = diffChatrooms([], store.chatrooms);
+      if (chatrooms) post({ type: "changes", chatrooms });
+      return;
+    }
+
+    // Changes applied here must not be broadcast back
+    applyingRemote = true;
+    try {
+      if (message.chatrooms) store.applyTabChanges(message.chatrooms);
+      if (message.theme) store.setTheme(message.theme);
+      if (message.user !== undefined) {
+        if (message.user) store.setUser(message.user);
+        else if (store.user) store.logout();
+      }
+    } finally {
+      applyingRemote = false;
+    }
+  };
+
+  const start = () => {
+    unsubscribe = useAppStore.subscribe((state, prev) => {
+      if (applyingRemote) return;
+
+      const message: TabMessage = { type: "changes" };
+      const chatrooms = diffChatrooms(prev.chatrooms, state.chatrooms);
+      if (chatrooms) message.chatrooms = chatrooms;
+      if (state.user !== prev.user) message.user = state.user;
+      if (state.theme !== prev.theme) message.theme = state.theme;
+
+      if (Object.keys(message).length > 1) post(message);
+    });
+    channel.onmessage = (event: MessageEvent<TabMessage>) =>
+      applyRemote(event.data);
+    post({ type: "hello" });
+  };
+
+  let stopWaiting = () => {};
+  if (useAppStore.persist.hasHydrated()) {
+    start();
+  } else {
+    stopWaiting = useAppStore.persist.onFinishHydration(() => start());
+  }
+
+  return () => {
+    stopWaiting();
+    unsubscribe();
+    channel.close();
+  };
+}
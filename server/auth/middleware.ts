@@ -0,0 +1,89 @@
+import { Request, RequestHandler, Response } from "express";
+import { sendError } from "../errors";
+import type { AuthContext, SessionService, SessionTokens } from "./sessions";
+import { AuthError } from "./tokens";
+
+export const ACCESS_COOKIE = "gemini_access";
+export const REFRESH_COOKIE = "gemini_refresh";
+
+// The refresh token is only ever needed by the auth routes
+const REFRESH_COOKIE_PATH = "/api/auth";
+
+// Values that are not valid percent-encoding are kept as sent
+function decodeCookieValue(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export function parseCookies(header: string | undefined) {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? "").split(";")) {
+    const index = part.indexOf("=");
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    if (name) cookies[name] = decodeCookieValue(part.slice(index + 1).trim());
+  }
+  return cookies;
+}
+
+export function setSessionCookies(res: Response, tokens: SessionTokens) {
+  const base = {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+  };
+
+  res.cookie(ACCESS_COOKIE, tokens.accessToken, {
+    ...base,
+    path: "/api",
+    expires: tokens.accessExpiresAt,
+  });
+  res.cookie(REFRESH_COOKIE, tokens.refreshToken, {
+    ...base,
+    path: REFRESH_COOKIE_PATH,
+    expires: tokens.refreshExpiresAt,
+  });
+}
+
+export function clearSessionCookies(res: Response) {
+  res.clearCookie(ACCESS_COOKIE, { path: "/api" });
+  res.clearCookie(REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH });
+}
+
+/**
+ * Reads the access token from an `Authorization: Bearer` header,
+ * falling back to the session cookie set by the auth routes
+ */
+export function readAccessToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) return header.slice(7);
+  return parseCookies(req.headers.cookie)[ACCESS_COOKIE] ?? null;
+}
+
+export function readRefreshToken(req: Request): string | null {
+  return parseCookies(req.headers.cookie)[REFRESH_COOKIE] ?? null;
+}
+
+/**
+ * Rejects the request with 401 unless it carries a valid access token
+ * for a live session. Handlers can then read the caller with getAuth().
+ */
+export function requireAuth(sessions: SessionService): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const token = readAccessToken(req);
+      if (!token) throw new AuthError();
+      res.locals.auth = await sessions.authenticate(token);
+      next();
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+}
+
+export function getAuth(res: Response): AuthContext {
+  return res.locals.auth as AuthContext;
+}
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createOtpService, OtpError, type OtpService } from "./otp";
+import { createMemorySmsTransport } from "./sms";
+import { createMemoryStorage } from "../storage/memory";
+
+const PHONE = "+14155550123";
+
+describe("OTP service", () => {
+  let clock: Date;
+  let transport: ReturnType<typeof createMemorySmsTransport>;
+  let otp: OtpService;
+
+  const lastCode = () =>
+    /(\d{6})/.exec(transport.outbox[transport.outbox.length - 1].body)![1];
+
+  beforeEach(() => {
+    clock = new Date("2025-01-01T00:00:00Z");
+    transport = createMemorySmsTransport();
+    otp = createOtpService({
+      challenges: createMemoryStorage().otpChallenges,
+      transport,
+      now: () => clock,
+    });
+  });
+
+  it("should send a 6-digit code and accept it once", async () => {
+    await otp.request(PHONE);
+
+    expect(transport.outbox).toHaveLength(1);
+    expect(transport.outbox[0].to).toBe(PHONE);
+
+    const code = lastCode();
+    await expect(otp.verify(PHONE, code)).resolves.toBeUndefined();
+    await expect(otp.verify(PHONE, code)).rejects.toThrow(OtpError);
+  });
+
+  it("should reject a wrong code", async () => {
+    await otp.request(PHONE);
+    const wrong = lastCode() === "000000" ? "111111" : "000000";
+
+    await expect(otp.verify(PHONE, wrong)).rejects.toThrow(
+      "Invalid verification code",
+    );
+  });
+
+  it("should reject an expired code", async () => {
+    await otp.request(PHONE);
+    clock = new Date(clock.getTime() + 6 * 60 * 1000);
+
+    await expect(otp.verify(PHONE, lastCode())).rejects.toThrow(/expired/);
+  });
+
+  it("should lock the code after too many wrong attempts", async () => {
+    await otp.request(PHONE);
+    const code = lastCode();
+    const wrong = code === "000000" ? "111111" : "000000";
+
+    for (let i = 0; i < 5; i++) {
+      await expect(otp.verify(PHONE, wrong)).rejects.toThrow();
+    }
+
+    await expect(otp.verify(PHONE, code)).rejects.toMatchObject({
+      status: 429,
+    });
+  });
+
+  it("should enforce the resend cooldown", async () => {
+    await otp.request(PHONE);
+    await expect(otp.request(PHONE)).rejects.toMatchObject({ status: 429 });
+
+    clock = new Date(clock.getTime() + 30 * 1000);
+    await expect(otp.request(PHONE)).resolves.toBeDefined();
+  });
+});
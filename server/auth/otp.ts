@@ -0,0 +1,116 @@
+import crypto from "crypto";
+import { HttpError } from "../errors";
+import type { OtpChallengeRepository } from "../storage/types";
+import type { SmsTransport } from "./sms";
+
+export interface OtpServiceOptions {
+  challenges: OtpChallengeRepository;
+  transport: SmsTransport;
+  /** How long a code stays valid */
+  ttlMs?: number;
+  /** Minimum wait before another code can be sent to the same number */
+  resendCooldownMs?: number;
+  /** Wrong guesses allowed before the code is burned */
+  maxAttempts?: number;
+  now?: () => Date;
+}
+
+export interface OtpService {
+  request(
+    destination: string,
+  ): Promise<{ expiresAt: Date; resendAvailableAt: Date }>;
+  /** Resolves when the code is valid; throws an OtpError otherwise */
+  verify(destination: string, code: string): Promise<void>;
+}
+
+export class OtpError extends HttpError {
+  constructor(message: string, status = 400) {
+    super(message, status);
+    this.name = "OtpError";
+  }
+}
+
+const CODE_LENGTH = 6;
+
+function hashCode(code: string, salt: string) {
+  return crypto.createHash("sha256").update(`${salt}:${code}`).digest("hex");
+}
+
+export function createOtpService(options: OtpServiceOptions): OtpService {
+  const {
+    challenges,
+    transport,
+    ttlMs = 5 * 60 * 1000,
+    resendCooldownMs = 30 * 1000,
+    maxAttempts = 5,
+    now = () => new Date(),
+  } = options;
+
+  return {
+    async request(destination) {
+      const issuedAt = now();
+      const previous = await challenges.findLatest(destination);
+      if (
+        previous &&
+        issuedAt.getTime() - previous.createdAt.getTime() < resendCooldownMs
+      ) {
+        throw new OtpError("Please wait before requesting a new code", 429);
+      }
+
+      const code = crypto
+        .randomInt(0, 10 ** CODE_LENGTH)
+        .toString()
+        .padStart(CODE_LENGTH, "0");
+      const salt = crypto.randomBytes(16).toString("hex");
+      const expiresAt = new Date(issuedAt.getTime() + ttlMs);
+
+      await challenges.save({
+        id: crypto.randomUUID(),
+        destination,
+        codeHash: hashCode(code, salt),
+        salt,
+        attempts: 0,
+        createdAt: issuedAt,
+        expiresAt,
+      });
+
+      await transport.send(
+        destination,
+        `Your Gemini verification code is ${code}. It expires in ${Math.round(ttlMs / 60000)} minutes.`,
+      );
+
+      return {
+        expiresAt,
+        resendAvailableAt: new Date(issuedAt.getTime() + resendCooldownMs),
+      };
+    },
+
+    async verify(destination, code) {
+      const challenge = await challenges.findLatest(destination);
+      if (!challenge || challenge.consumedAt) {
+        throw new OtpError("No pending code for this number");
+      }
+      if (challenge.expiresAt <= now()) {
+        throw new OtpError("This code has expired, please request a new one");
+      }
+      if (challenge.attempts >= maxAttempts) {
+        throw new OtpError(
+          "Too many incorrect attempts, please request a new code",
+          429,
+        );
+      }
+
+      const expected = Buffer.from(challenge.codeHash, "hex");
+      const actual = Buffer.from(hashCode(code, challenge.salt), "hex");
+      if (!crypto.timingSafeEqual(expected, actual)) {
+        await challenges.save({
+          ...challenge,
+          attempts: challenge.attempts + 1,
+        });
+        throw new OtpError("Invalid verification code");
+      }
+
+      await challenges.save({ ...challenge, consumedAt: now() });
+    },
+  };
+}
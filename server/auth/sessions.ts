@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import type {
+  SessionRecord,
+  SessionRepository,
+  UserRecord,
+  UserRepository,
+} from "../storage/types";
+import { AuthError, hashToken, type TokenSigner } from "./tokens";
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  accessExpiresAt: Date;
+  refreshExpiresAt: Date;
+}
+
+export interface AuthContext {
+  user: UserRecord;
+  session: SessionRecord;
+}
+
+export interface SessionServiceOptions {
+  sessions: SessionRepository;
+  users: UserRepository;
+  signer: TokenSigner;
+  accessTtlMs?: number;
+  refreshTtlMs?: number;
+  now?: () => Date;
+}
+
+export interface SessionService {
+  start(userId: string, userAgent?: string): Promise<SessionTokens>;
+  /** Rotates the refresh token; the presented one stops working */
+  refresh(refreshToken: string): Promise<SessionTokens>;
+  authenticate(accessToken: string): Promise<AuthContext>;
+  revoke(sessionId: string): Promise<void>;
+  /** Sessions of `userId` that are neither revoked nor expired */
+  listActive(userId: string): Promise<SessionRecord[]>;
+}
+
+// Avoid a storage write on every request just to bump lastSeenAt
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export function createSessionService(
+  options: SessionServiceOptions,
+): SessionService {
+  const {
+    sessions,
+    users,
+    signer,
+    accessTtlMs = 15 * 60 * 1000,
+    refreshTtlMs = 30 * 24 * 60 * 60 * 1000,
+    now = () => new Date(),
+  } = options;
+
+  const issue = (session: SessionRecord) => {
+    const issuedAt = now().getTime();
+    const claims = { sub: session.userId, sid: session.id };
+    const tokens: SessionTokens = {
+      accessToken: signer.sign({ ...claims, typ: "access" }, accessTtlMs),
+      // Unique id so two refreshes within the same second still differ
+      refreshToken: signer.sign(
+        { ...claims, typ: "refresh", jti: crypto.randomUUID() },
+        refreshTtlMs,
+      ),
+      accessExpiresAt: new Date(issuedAt + accessTtlMs),
+      refreshExpiresAt: new Date(issuedAt + refreshTtlMs),
+    };
+    return tokens;
+  };
+
+  const findActive = async (sessionId: string) => {
+    const session = await sessions.findById(sessionId);
+    if (!session || session.revokedAt || session.expiresAt <= now()) {
+      throw new AuthError("Session expired");
+    }
+    return session;
+  };
+
+  return {
+    async start(userId, userAgent) {
+      const createdAt = now();
+      const session: SessionRecord = {
+        id: crypto.randomUUID(),
+        userId,
+        refreshTokenHash: "",
+        userAgent,
+        createdAt,
+        lastSeenAt: createdAt,
+        expiresAt: new Date(createdAt.getTime() + refreshTtlMs),
+      };
+
+      const tokens = issue(session);
+      session.refreshTokenHash = hashToken(tokens.refreshToken);
+      await sessions.save(session);
+      return tokens;
+    },
+
+    async refresh(refreshToken) {
+      const payload = signer.verify(refreshToken, "refresh");
+      const session = await findActive(payload.sid);
+
+      if (session.refreshTokenHash !== hashToken(refreshToken)) {
+        // A rotated-out token was replayed: assume it leaked
+        await sessions.save({ ...session, revokedAt: now() });
+        throw new AuthError("Session expired");
+      }
+
+      const tokens = issue(session);
+      await sessions.save({
+        ...session,
+        refreshTokenHash: hashToken(tokens.refreshToken),
+        lastSeenAt: now(),
+        expiresAt: tokens.refreshExpiresAt,
+      });
+      return tokens;
+    },
+
+    async authenticate(accessToken) {
+      const payload = signer.verify(accessToken, "access");
+      const session = await findActive(payload.sid);
+      const user = await users.findById(session.userId);
+      if (!user) throw new AuthError();
+
+      const seenAt = now();
+      if (seenAt.getTime() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+        const touched = { ...session, lastSeenAt: seenAt };
+        await sessions.save(touched);
+        return { user, session: touched };
+      }
+
+      return { user, session };
+    },
+
+    async revoke(sessionId) {
+      const session = await sessions.findById(sessionId);
+      if (session && !session.revokedAt) {
+        await sessions.save({ ...session, revokedAt: now() });
+      }
+    },
+
+    async listActive(userId) {
+      const current = now();
+      return (await sessions.listByUser(userId))
+        .filter((session) => !session.revokedAt && session.expiresAt > current)
+        .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+    },
+  };
+}
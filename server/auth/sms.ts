@@ -0,0 +1,40 @@
+/**
+ * Delivers text messages. Swap in a real gateway (Twilio, SNS, ...) by
+ * implementing this interface and passing it to createServer().
+ */
+export interface SmsTransport {
+  send(to: string, body: string): Promise<void>;
+}
+
+export interface SentSms {
+  to: string;
+  body: string;
+  sentAt: Date;
+}
+
+/**
+ * Default transport for local development: prints messages to the console
+ */
+export function createConsoleSmsTransport(): SmsTransport {
+  return {
+    async send(to, body) {
+      console.log(`📨 SMS to ${to}: ${body}`);
+    },
+  };
+}
+
+/**
+ * Keeps every message in `outbox` so tests can read the codes back
+ */
+export function createMemorySmsTransport(): SmsTransport & {
+  outbox: SentSms[];
+} {
+  const outbox: SentSms[] = [];
+
+  return {
+    outbox,
+    async send(to, body) {
+      outbox.push({ to, body, sentAt: new Date() });
+    },
+  };
+}
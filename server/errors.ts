@@ -0,0 +1,36 @@
+import { Response } from "express";
+import type { ZodError } from "zod";
+import { ErrorResponse } from "@shared/api";
+
+/**
+ * Base class for errors that map onto an HTTP status.
+ * Anything else reaching sendError() is reported as a 500.
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export function sendError(
+  res: Response,
+  error: unknown,
+  fallbackMessage = "Something went wrong",
+) {
+  const status = error instanceof HttpError ? error.status : 500;
+  const response: ErrorResponse = {
+    error: error instanceof Error ? error.message : fallbackMessage,
+  };
+  res.status(status).json(response);
+}
+
+export function sendValidationError(res: Response, error: ZodError) {
+  const response: ErrorResponse = {
+    error: error.issues[0]?.message ?? "Invalid request",
+  };
+  res.status(400).json(response);
+}
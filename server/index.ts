@@ -1,13 +1,109 @@
+import crypto from "crypto";
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
+import {
+  createChatHandler,
+  createChatStreamHandler,
+  createModelsHandler,
+} from "./routes/chat";
+import {
+  createOtpRequestHandler,
+  createOtpVerifyHandler,
+  createListSessionsHandler,
+  createLogoutHandler,
+  createRefreshHandler,
+  createRevokeSessionHandler,
+  handleMe,
+} from "./routes/auth";
+import { createChatroomsRouter } from "./routes/chatrooms";
+import { createGemsRouter } from "./routes/gems";
+import { createResearchRouter } from "./routes/research";
+import {
+  createProviderRegistry,
+  createProvidersFromEnv,
+  type LLMProvider,
+} from "./providers";
+import { createResearchService, type ResearchTool } from "./research/jobs";
+import { createOtpService, type OtpServiceOptions } from "./auth/otp";
+import { createConsoleSmsTransport, type SmsTransport } from "./auth/sms";
+import { createSessionService } from "./auth/sessions";
+import { createTokenSigner } from "./auth/tokens";
+import { requireAuth } from "./auth/middleware";
+import {
+  createStorage,
+  storageConfigFromEnv,
+  type Storage,
+  type StorageConfig,
+} from "./storage";
 
-export function createServer() {
+export interface ServerOptions {
+  /** LLM backends to expose; defaults to the ones configured in the environment */
+  providers?: LLMProvider[];
+  /** Delivers OTP codes; defaults to logging them to the console */
+  smsTransport?: SmsTransport;
+  /** Overrides for OTP expiry, resend cooldown and attempt limits */
+  otp?: Pick<OtpServiceOptions, "ttlMs" | "resendCooldownMs" | "maxAttempts">;
+  /** Key used to sign session tokens; defaults to AUTH_SECRET */
+  authSecret?: string;
+  /** Storage driver config or a ready storage; defaults to STORAGE_DRIVER */
+  storage?: StorageConfig | Storage;
+  /** Sources Deep Research can look things up in; none by default */
+  researchTools?: ResearchTool[];
+}
+
+function resolveAuthSecret(options: ServerOptions) {
+  const secret = options.authSecret ?? process.env.AUTH_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === "production") {
+    console.warn(
+      "⚠️ AUTH_SECRET is not set; sessions will not survive a restart",
+    );
+  }
+  return crypto.randomBytes(32).toString("hex");
+}
+
+function resolveStorage({ storage }: ServerOptions): Storage {
+  if (!storage) return createStorage(storageConfigFromEnv());
+  return "driver" in storage ? createStorage(storage) : storage;
+}
+
+export function createServer(options: ServerOptions = {}) {
   const app = express();
+  const registry = createProviderRegistry(
+    options.providers ?? createProvidersFromEnv(),
+  );
+
+  const storage = resolveStorage(options);
+  // Queries fail with the same error; this just makes it visible at boot
+  storage
+    .ready()
+    .catch((error) =>
+      console.error(`❌ Storage unavailable: ${error.message}`),
+    );
+  const { users } = storage;
+  const otp = createOtpService({
+    challenges: storage.otpChallenges,
+    transport: options.smsTransport ?? createConsoleSmsTransport(),
+    ...options.otp,
+  });
+  const sessions = createSessionService({
+    sessions: storage.sessions,
+    users,
+    signer: createTokenSigner(resolveAuthSecret(options)),
+  });
+  const authenticated = requireAuth(sessions);
+  const research = createResearchService({
+    jobs: storage.researchJobs,
+    registry,
+    tools: options.researchTools,
+  });
 
   // Middleware
   app.use(cors());
-  app.use(express.json());
+  // Chat requests carry base64 image attachments (up to 5MB on the client)
+  app.use(express.json({ limit: "10mb" }));
   app.use(express.urlencoded({ extended: true }));
 
   // Example API routes
@@ -17,5 +113,50 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  app.post("/api/auth/otp/request", createOtpRequestHandler(otp));
+  app.post(
+    "/api/auth/otp/verify",
+    createOtpVerifyHandler(otp, users, sessions),
+  );
+  app.post("/api/auth/refresh", createRefreshHandler(sessions));
+  app.get("/api/auth/me", authenticated, handleMe);
+  app.post("/api/auth/logout", authenticated, createLogoutHandler(sessions));
+  app.get(
+    "/api/auth/sessions",
+    authenticated,
+    createListSessionsHandler(sessions),
+  );
+  app.delete(
+    "/api/auth/sessions/:id",
+    authenticated,
+    createRevokeSessionHandler(sessions),
+  );
+
+  app.get("/api/models", authenticated, createModelsHandler(registry));
+  app.post("/api/chat", authenticated, createChatHandler(registry));
+  app.post(
+    "/api/chat/stream",
+    authenticated,
+    createChatStreamHandler(registry),
+  );
+
+  app.use(
+    "/api/chatrooms",
+    authenticated,
+    createChatroomsRouter({
+      chatrooms: storage.chatrooms,
+      messages: storage.messages,
+      gems: storage.gems,
+      registry,
+      research,
+    }),
+  );
+  app.use("/api/gems", authenticated, createGemsRouter(storage));
+  app.use(
+    "/api/research",
+    authenticated,
+    createResearchRouter({ research, chatrooms: storage.chatrooms }),
+  );
+
   return app;
 }
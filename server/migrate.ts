@@ -0,0 +1,51 @@
+import {
+  getSqliteMigrationStatus,
+  migrateSqliteFile,
+  storageConfigFromEnv,
+} from "./storage";
+
+/**
+ * `migrate` applies pending schema migrations to the configured database;
+ * `migrate status` lists applied and pending ones without changing anything.
+ * Returns the process exit code.
+ */
+export async function runMigrateCommand(
+  args: string[],
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<number> {
+  const config = storageConfigFromEnv(env);
+  if (config.driver !== "sqlite") {
+    console.log(`Storage driver "${config.driver}" has no schema to migrate`);
+    return 0;
+  }
+
+  if (args[0] === "status") {
+    const { applied, pending, problems } = await getSqliteMigrationStatus(
+      config.path,
+    );
+    for (const migration of applied) {
+      console.log(
+        `✅ ${migration.version} ${migration.name} (applied ${migration.appliedAt.toISOString()})`,
+      );
+    }
+    for (const migration of pending) {
+      console.log(`⏳ ${migration.version} ${migration.name} (pending)`);
+    }
+    for (const problem of problems) console.error(`❌ ${problem}`);
+    return problems.length > 0 ? 1 : 0;
+  }
+
+  try {
+    const applied = await migrateSqliteFile(config.path);
+    if (applied.length === 0) {
+      console.log(`${config.path} is up to date`);
+    }
+    for (const migration of applied) {
+      console.log(`✅ Applied ${migration.version} ${migration.name}`);
+    }
+    return 0;
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+}
@@ -1,8 +1,24 @@
 import path from "path";
 import { createServer } from "./index";
+import { runMigrateCommand } from "./migrate";
+import { createStorage, storageConfigFromEnv } from "./storage";
 import * as express from "express";
 
-const app = createServer();
+// `node dist/server/node-build.mjs migrate [status]`
+if (process.argv[2] === "migrate") {
+  process.exit(await runMigrateCommand(process.argv.slice(3)));
+}
+
+// Refuse to start against a database whose schema does not match this build
+const storage = createStorage(storageConfigFromEnv());
+try {
+  await storage.ready();
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
+const app = createServer({ storage });
 const port = process.env.PORT || 3000;
 
 // In production, serve the built SPA files
@@ -28,13 +44,12 @@ app.listen(port, () => {
   console.log(`🔧 API: http://localhost:${port}/api`);
 });
 
-// Graceful shutdown
-process.on("SIGTERM", () => {
-  console.log("🛑 Received SIGTERM, shutting down gracefully");
+// Graceful shutdown; pending storage writes are flushed first
+const shutdown = async (signal: string) => {
+  console.log(`🛑 Received ${signal}, shutting down gracefully`);
+  await storage.close();
   process.exit(0);
-});
+};
 
-process.on("SIGINT", () => {
-  console.log("🛑 Received SIGINT, shutting down gracefully");
-  process.exit(0);
-});
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
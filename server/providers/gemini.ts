@@ -0,0 +1,111 @@
+import type { ChatMessage, GenerationSettings } from "@shared/api";
+import { readSseData } from "@shared/sse";
+import { ProviderError, type GenerateRequest, type LLMProvider } from "./types";
+
+const API_BASE = "https://generativelanguage.googleapis.com/v1beta";
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  models?: string[];
+}
+
+interface GeminiPart {
+  text?: string;
+  inline_data?: { mime_type: string; data: string };
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: GeminiPart[] } }[];
+  error?: { message: string };
+}
+
+// Splits a base64 data URL into the inline_data shape Gemini expects
+function toInlineData(dataUrl: string): GeminiPart | null {
+  const match = /^data:([^;]+);base64,(.+)$/.exec(dataUrl);
+  if (!match) return null;
+  return { inline_data: { mime_type: match[1], data: match[2] } };
+}
+
+function toContents(messages: ChatMessage[]) {
+  return messages.map((message) => {
+    const parts: GeminiPart[] = [];
+    const image = message.imageUrl ? toInlineData(message.imageUrl) : null;
+    if (image) parts.push(image);
+    if (message.content) parts.push({ text: message.content });
+
+    return {
+      role: message.sender === "ai" ? "model" : "user",
+      parts,
+    };
+  });
+}
+
+function toGenerationConfig(settings: GenerationSettings = {}) {
+  const { systemInstruction, ...config } = settings;
+  return {
+    systemInstruction: systemInstruction
+      ? { parts: [{ text: systemInstruction }] }
+      : undefined,
+    generationConfig: config,
+  };
+}
+
+function textOf(data: GeminiResponse): string {
+  return (data.candidates?.[0]?.content?.parts ?? [])
+    .map((part) => part.text ?? "")
+    .join("");
+}
+
+export function createGeminiProvider(
+  options: GeminiProviderOptions,
+): LLMProvider {
+  const post = async (
+    path: string,
+    { messages, settings, signal }: GenerateRequest,
+  ) => {
+    const response = await fetch(`${API_BASE}/${path}`, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": options.apiKey,
+      },
+      body: JSON.stringify({
+        contents: toContents(messages),
+        ...toGenerationConfig(settings),
+      }),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as GeminiResponse;
+      throw new ProviderError(
+        data.error?.message || `Gemini request failed (${response.status})`,
+      );
+    }
+
+    return response;
+  };
+
+  return {
+    id: "gemini",
+    models: options.models ?? ["gemini-2.5-flash", "gemini-2.5-pro"],
+    async generate(request) {
+      const response = await post(
+        `models/${request.model}:generateContent`,
+        request,
+      );
+      return { text: textOf((await response.json()) as GeminiResponse) };
+    },
+    async *stream(request) {
+      const response = await post(
+        `models/${request.model}:streamGenerateContent?alt=sse`,
+        request,
+      );
+
+      for await (const data of readSseData(response.body)) {
+        const text = textOf(JSON.parse(data) as GeminiResponse);
+        if (text) yield text;
+      }
+    },
+  };
+}
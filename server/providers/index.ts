@@ -0,0 +1,71 @@
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import { ProviderError, type LLMProvider } from "./types";
+
+export * from "./types";
+export { createGeminiProvider, createMockProvider, createOpenAIProvider };
+
+export interface ProviderRegistry {
+  providers: LLMProvider[];
+  defaultModel: string;
+  /** Finds the provider serving `model`, falling back to the default model */
+  resolve(model?: string): { provider: LLMProvider; model: string };
+}
+
+export function createProviderRegistry(
+  providers: LLMProvider[],
+): ProviderRegistry {
+  if (providers.length === 0) {
+    throw new Error("At least one LLM provider must be configured");
+  }
+
+  const defaultModel = providers[0].models[0];
+
+  return {
+    providers,
+    defaultModel,
+    resolve(model) {
+      const requested = model ?? defaultModel;
+      const provider = providers.find((p) => p.models.includes(requested));
+      if (!provider) {
+        throw new ProviderError(`Unknown model "${requested}"`, 400);
+      }
+      return { provider, model: requested };
+    },
+  };
+}
+
+/**
+ * Builds the provider list from environment variables.
+ * Real adapters are enabled by their API keys; without any key (or with
+ * LLM_PROVIDER=mock) the offline mock provider is used.
+ */
+export function createProvidersFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): LLMProvider[] {
+  const mock = () =>
+    createMockProvider({
+      chunkDelayMs: Number(env.MOCK_STREAM_DELAY_MS ?? 30),
+    });
+
+  if (env.LLM_PROVIDER === "mock") {
+    return [mock()];
+  }
+
+  const providers: LLMProvider[] = [];
+
+  if (env.GEMINI_API_KEY) {
+    providers.push(createGeminiProvider({ apiKey: env.GEMINI_API_KEY }));
+  }
+  if (env.OPENAI_API_KEY) {
+    providers.push(
+      createOpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        baseUrl: env.OPENAI_BASE_URL,
+      }),
+    );
+  }
+
+  return providers.length > 0 ? providers : [mock()];
+}
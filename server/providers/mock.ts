@@ -0,0 +1,65 @@
+import type { ChatMessage } from "@shared/api";
+import type { LLMProvider } from "./types";
+
+export interface MockProviderOptions {
+  models?: string[];
+  /** Delay between streamed chunks, to simulate a real model offline */
+  chunkDelayMs?: number;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+function buildReply(messages: ChatMessage[]): string {
+  const lastUserMessage = [...messages]
+    .reverse()
+    .find((message) => message.sender === "user");
+
+  if (!lastUserMessage) {
+    return "Hello there! How can I help you today?";
+  }
+
+  const parts: string[] = [];
+  if (lastUserMessage.imageUrl) {
+    parts.push("I received your image.");
+  }
+  if (lastUserMessage.content) {
+    parts.push(`You said: "${lastUserMessage.content}"`);
+  }
+
+  return parts.join(" ");
+}
+
+/**
+ * Offline provider for local development and tests.
+ * Replies deterministically by echoing the latest user message, and streams
+ * it word by word at `chunkDelayMs`.
+ */
+export function createMockProvider(
+  options: MockProviderOptions = {},
+): LLMProvider {
+  const chunkDelayMs = options.chunkDelayMs ?? 0;
+
+  return {
+    id: "mock",
+    models: options.models ?? ["mock-echo"],
+    async generate({ messages }) {
+      return { text: buildReply(messages) };
+    },
+    async *stream({ messages, signal }) {
+      // Keep the whitespace attached so chunks concatenate back losslessly
+      const chunks = buildReply(messages).match(/\S+\s*/g) ?? [];
+      for (const chunk of chunks) {
+        if (chunkDelayMs > 0) await sleep(chunkDelayMs, signal);
+        if (signal?.aborted) return;
+        yield chunk;
+      }
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import type { ChatMessage, GenerationSettings } from "@shared/api";
+import { readSseData } from "@shared/sse";
+import { ProviderError, type LLMProvider } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  /** Override for OpenAI-compatible gateways */
+  baseUrl?: string;
+  models?: string[];
+}
+
+interface OpenAIResponse {
+  choices?: { message?: { content?: string } }[];
+  error?: { message: string };
+}
+
+interface OpenAIStreamChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+function toMessages(messages: ChatMessage[], systemInstruction?: string) {
+  const turns = messages.map((message) => {
+    const role = message.sender === "ai" ? "assistant" : "user";
+    if (!message.imageUrl) {
+      return { role, content: message.content };
+    }
+
+    return {
+      role,
+      content: [
+        { type: "image_url", image_url: { url: message.imageUrl } },
+        { type: "text", text: message.content },
+      ],
+    };
+  });
+
+  return systemInstruction
+    ? [{ role: "system", content: systemInstruction }, ...turns]
+    : turns;
+}
+
+function toBody(
+  model: string,
+  messages: ChatMessage[],
+  settings: GenerationSettings = {},
+) {
+  return {
+    model,
+    messages: toMessages(messages, settings.systemInstruction),
+    temperature: settings.temperature,
+    top_p: settings.topP,
+    max_tokens: settings.maxOutputTokens,
+    stop: settings.stopSequences,
+  };
+}
+
+export function createOpenAIProvider(
+  options: OpenAIProviderOptions,
+): LLMProvider {
+  const baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;
+
+  const post = async (body: Record<string, unknown>, signal?: AbortSignal) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${options.apiKey}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({}))) as OpenAIResponse;
+      throw new ProviderError(
+        data.error?.message || `OpenAI request failed (${response.status})`,
+      );
+    }
+
+    return response;
+  };
+
+  return {
+    id: "openai",
+    models: options.models ?? ["gpt-4o-mini", "gpt-4o"],
+    async generate({ model, messages, settings, signal }) {
+      const response = await post(toBody(model, messages, settings), signal);
+      const data = (await response.json()) as OpenAIResponse;
+      return { text: data.choices?.[0]?.message?.content ?? "" };
+    },
+    async *stream({ model, messages, settings, signal }) {
+      const response = await post(
+        { ...toBody(model, messages, settings), stream: true },
+        signal,
+      );
+
+      for await (const data of readSseData(response.body)) {
+        if (data === "[DONE]") break;
+        const chunk = JSON.parse(data) as OpenAIStreamChunk;
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import type { ChatMessage, GenerationSettings } from "@shared/api";
+import { HttpError } from "../errors";
+
+export interface GenerateRequest {
+  model: string;
+  messages: ChatMessage[];
+  settings?: GenerationSettings;
+  /** Aborted when the client stops waiting; adapters cancel upstream calls */
+  signal?: AbortSignal;
+}
+
+export interface GenerateResult {
+  text: string;
+}
+
+/**
+ * A backend able to turn a conversation into a model reply.
+ * Adapters should throw a ProviderError when the upstream call fails.
+ */
+export interface LLMProvider {
+  /** Stable identifier, e.g. "mock" or "gemini" */
+  readonly id: string;
+  /** Model ids served by this provider; the first one is its default */
+  readonly models: string[];
+  generate(request: GenerateRequest): Promise<GenerateResult>;
+  /** Yields the reply incrementally as text chunks */
+  stream(request: GenerateRequest): AsyncIterable<string>;
+}
+
+export class ProviderError extends HttpError {
+  constructor(message: string, status = 502) {
+    super(message, status);
+    this.name = "ProviderError";
+  }
+}
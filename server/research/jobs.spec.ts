@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createMockProvider,
+  createProviderRegistry,
+  ProviderError,
+} from "../providers";
+import { createMemoryStorage } from "../storage/memory";
+import type { Storage } from "../storage/types";
+import { createResearchService, parsePlan } from "./jobs";
+
+describe("research service", () => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+  });
+
+  it("should read sub-questions out of a plan", () => {
+    expect(
+      parsePlan("1. First?\n\n- Second?\n* Third?\n2) Fourth?", 3),
+    ).toEqual(["First?", "Second?", "Third?"]);
+  });
+
+  it("should fail the job and the step under way when the model fails", async () => {
+    const research = createResearchService({
+      jobs: storage.researchJobs,
+      registry: createProviderRegistry([
+        {
+          id: "broken",
+          models: ["broken-model"],
+          async generate() {
+            throw new ProviderError("Upstream is down");
+          },
+          async *stream() {},
+        },
+      ]),
+    });
+
+    const { id } = await research.start({
+      userId: "u1",
+      chatroomId: "c1",
+      question: "Why?",
+    });
+    const job = await research.settled(id);
+
+    expect(job).toMatchObject({ status: "failed", error: "Upstream is down" });
+    expect(job?.steps).toMatchObject([{ kind: "plan", status: "failed" }]);
+  });
+
+  it("should report jobs left running by another process as interrupted", async () => {
+    const createdAt = new Date("2025-01-01T00:00:00Z");
+    await storage.researchJobs.save({
+      id: "r1",
+      userId: "u1",
+      chatroomId: "c1",
+      question: "Why?",
+      model: "mock-echo",
+      status: "running",
+      steps: [],
+      createdAt,
+      updatedAt: createdAt,
+    });
+    const research = createResearchService({
+      jobs: storage.researchJobs,
+      registry: createProviderRegistry([createMockProvider()]),
+    });
+
+    expect(await research.get("r1")).toMatchObject({ status: "failed" });
+    expect(await storage.researchJobs.findById("r1")).toMatchObject({
+      status: "failed",
+      error: "Research was interrupted by a server restart",
+    });
+  });
+});
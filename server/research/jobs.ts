@@ -0,0 +1,355 @@
+import crypto from "crypto";
+import type {
+  GenerationSettings,
+  ResearchSourceDto,
+  ResearchStepDto,
+} from "@shared/api";
+import { HttpError } from "../errors";
+import type { LLMProvider, ProviderRegistry } from "../providers";
+import type {
+  ResearchJobRecord,
+  ResearchJobRepository,
+} from "../storage/types";
+
+/**
+ * Something a job can look sub-questions up in, such as a search API.
+ * What it finds is handed to the model and cited in the report.
+ */
+export interface ResearchTool {
+  /** Shown in logs, e.g. "web-search" */
+  readonly name: string;
+  search(query: string, signal?: AbortSignal): Promise<ResearchFinding>;
+}
+
+export interface ResearchFinding {
+  /** Notes for the model to answer from */
+  content: string;
+  sources: ResearchSourceDto[];
+}
+
+export interface ResearchServiceOptions {
+  jobs: ResearchJobRepository;
+  registry: ProviderRegistry;
+  /** Consulted for every sub-question; none by default */
+  tools?: ResearchTool[];
+  /** Most sub-questions a plan may split the question into */
+  maxSubQuestions?: number;
+  /** Most jobs one user may have running at a time */
+  maxRunningPerUser?: number;
+  now?: () => Date;
+}
+
+export interface StartResearchInput {
+  userId: string;
+  chatroomId: string;
+  question: string;
+  model?: string;
+  settings?: GenerationSettings;
+}
+
+export interface ResearchService {
+  /**
+   * Saves a new job and runs it in the background; throws a
+   * ResearchLimitError while the user has too many running
+   */
+  start(input: StartResearchInput): Promise<ResearchJobRecord>;
+  /** The job as last saved */
+  get(id: string): Promise<ResearchJobRecord | null>;
+  /** Stops a running job; resolves with it once it has stopped */
+  cancel(id: string): Promise<ResearchJobRecord | null>;
+  /** Resolves with the job once it is no longer running */
+  settled(id: string): Promise<ResearchJobRecord | null>;
+  /** Stops the chatroom's running jobs without waiting for them */
+  cancelChatroom(chatroomId: string): void;
+}
+
+export class ResearchLimitError extends HttpError {
+  constructor(message: string) {
+    super(message, 429);
+    this.name = "ResearchLimitError";
+  }
+}
+
+// Thrown at checkpoints once a job is cancelled
+class CancelledError extends Error {}
+
+const planPrompt = (question: string, max: number) =>
+  `You are planning research on the question below. Break it into at most ${max} focused sub-questions that together answer it. Reply with one sub-question per line and nothing else.
+
+Question: ${question}`;
+
+const searchPrompt = (question: string, subQuestion: string, notes: string[]) =>
+  `You are researching: ${question}
+
+Answer this sub-question in a few concise paragraphs: ${subQuestion}
+${notes.length > 0 ? `\nBase the answer on these notes:\n\n${notes.join("\n\n")}\n` : ""}
+Say so when you are unsure rather than guessing.`;
+
+const reportPrompt = (question: string, findings: string) =>
+  `Write a well-structured Markdown report answering: ${question}
+
+Base it only on the numbered findings below, and cite them inline as [1], [2] and so on. Do not add a list of sources; one is appended for you.
+
+${findings}`;
+
+/**
+ * Reads the planned sub-questions out of the model's reply, dropping list
+ * markers the model may add anyway
+ */
+export function parsePlan(text: string, max: number) {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+    .filter(Boolean)
+    .slice(0, max);
+}
+
+// Numbered like the citations in the report
+function formatSources(steps: ResearchStepDto[]) {
+  const lines = steps.map((step, index) => {
+    const links = (step.sources ?? []).map(({ title, url }) =>
+      url ? `   - [${title}](${url})` : `   - ${title}`,
+    );
+    return [`${index + 1}. ${step.title}`, ...links].join("\n");
+  });
+  return `## Sources\n\n${lines.join("\n")}`;
+}
+
+/**
+ * Runs Deep Research jobs: the question is split into sub-questions, each
+ * is answered with help from the tools, and the answers are compiled into
+ * a cited report. Progress is saved after every step, so clients follow a
+ * job by polling it. Jobs run in this process; one found still running
+ * after a restart is reported as failed.
+ */
+export function createResearchService(
+  options: ResearchServiceOptions,
+): ResearchService {
+  const {
+    jobs,
+    registry,
+    tools = [],
+    maxSubQuestions = 5,
+    maxRunningPerUser = 3,
+    now = () => new Date(),
+  } = options;
+
+  // Jobs running in this process, by id
+  const running = new Map<
+    string,
+    {
+      userId: string;
+      chatroomId: string;
+      controller: AbortController;
+      done: Promise<void>;
+    }
+  >();
+
+  async function run(
+    initial: ResearchJobRecord,
+    provider: LLMProvider,
+    signal: AbortSignal,
+  ) {
+    let job = initial;
+    const save = async (changes: Partial<ResearchJobRecord>) => {
+      job = { ...job, ...changes, updatedAt: now() };
+      await jobs.save(job);
+    };
+    const setStep = (index: number, changes: Partial<ResearchStepDto>) =>
+      save({
+        steps: job.steps.map((step, i) =>
+          i === index ? { ...step, ...changes } : step,
+        ),
+      });
+    const checkpoint = () => {
+      if (signal.aborted) throw new CancelledError();
+    };
+    const ask = async (prompt: string) => {
+      const { text } = await provider.generate({
+        model: job.model,
+        messages: [{ sender: "user", content: prompt }],
+        settings: job.settings,
+        signal,
+      });
+      checkpoint();
+      return text.trim();
+    };
+
+    try {
+      await setStep(0, { status: "running" });
+      const plan = parsePlan(
+        await ask(planPrompt(job.question, maxSubQuestions)),
+        maxSubQuestions,
+      );
+      const subQuestions = plan.length > 0 ? plan : [job.question];
+      await save({
+        steps: [
+          {
+            ...job.steps[0],
+            status: "done",
+            output: subQuestions.map((q) => `- ${q}`).join("\n"),
+          },
+          ...subQuestions.map(
+            (title): ResearchStepDto => ({
+              id: crypto.randomUUID(),
+              kind: "search",
+              title,
+              status: "pending",
+            }),
+          ),
+          {
+            id: crypto.randomUUID(),
+            kind: "report",
+            title: "Write the report",
+            status: "pending",
+          },
+        ],
+      });
+
+      const findings: ResearchStepDto[] = [];
+      for (const [index, subQuestion] of subQuestions.entries()) {
+        const stepIndex = index + 1;
+        await setStep(stepIndex, { status: "running" });
+
+        // A tool that fails only costs its own notes
+        const results = await Promise.allSettled(
+          tools.map((tool) => tool.search(subQuestion, signal)),
+        );
+        checkpoint();
+        const found = results.flatMap((result) =>
+          result.status === "fulfilled" ? [result.value] : [],
+        );
+
+        const output = await ask(
+          searchPrompt(
+            job.question,
+            subQuestion,
+            found.map((finding) => finding.content),
+          ),
+        );
+        await setStep(stepIndex, {
+          status: "done",
+          output,
+          sources: found.flatMap((finding) => finding.sources),
+        });
+        findings.push(job.steps[stepIndex]);
+      }
+
+      const reportIndex = job.steps.length - 1;
+      await setStep(reportIndex, { status: "running" });
+      const report = await ask(
+        reportPrompt(
+          job.question,
+          findings
+            .map(
+              (step, index) => `[${index + 1}] ${step.title}\n${step.output}`,
+            )
+            .join("\n\n"),
+        ),
+      );
+      await setStep(reportIndex, { status: "done" });
+      await save({
+        status: "completed",
+        report: `${report}\n\n${formatSources(findings)}`,
+      });
+    } catch (error) {
+      // Whatever step was under way did not finish
+      const steps = job.steps.map((step) =>
+        step.status === "running"
+          ? { ...step, status: "failed" as const }
+          : step,
+      );
+      if (signal.aborted) {
+        await save({ steps, status: "cancelled" });
+      } else {
+        await save({
+          steps,
+          status: "failed",
+          error: error instanceof Error ? error.message : "Research failed",
+        });
+      }
+    }
+  }
+
+  async function get(id: string) {
+    const job = await jobs.findById(id);
+    if (job?.status !== "running" || running.has(id)) return job;
+
+    const interrupted: ResearchJobRecord = {
+      ...job,
+      status: "failed",
+      error: "Research was interrupted by a server restart",
+      updatedAt: now(),
+    };
+    await jobs.save(interrupted);
+    return interrupted;
+  }
+
+  async function settled(id: string) {
+    await running.get(id)?.done;
+    return get(id);
+  }
+
+  return {
+    async start({ userId, chatroomId, question, model, settings }) {
+      const ownRunning = [...running.values()].filter(
+        (entry) => entry.userId === userId,
+      );
+      if (ownRunning.length >= maxRunningPerUser) {
+        throw new ResearchLimitError(
+          "Too many research jobs are running; wait for one to finish",
+        );
+      }
+
+      // Unknown models are rejected before anything is saved
+      const resolved = registry.resolve(model);
+      const createdAt = now();
+      const job: ResearchJobRecord = {
+        id: crypto.randomUUID(),
+        userId,
+        chatroomId,
+        question,
+        model: resolved.model,
+        settings,
+        status: "running",
+        steps: [
+          {
+            id: crypto.randomUUID(),
+            kind: "plan",
+            title: "Plan the research",
+            status: "pending",
+          },
+        ],
+        createdAt,
+        updatedAt: createdAt,
+      };
+      // Counted as running from here, so parallel starts see each other
+      const controller = new AbortController();
+      const saved = jobs.save(job);
+      const done = saved
+        .then(() => run(job, resolved.provider, controller.signal))
+        .catch((error) =>
+          console.error(`Research job ${job.id} could not be saved:`, error),
+        )
+        .finally(() => running.delete(job.id));
+      running.set(job.id, { userId, chatroomId, controller, done });
+      await saved;
+      return job;
+    },
+
+    get,
+
+    async cancel(id) {
+      running.get(id)?.controller.abort();
+      return settled(id);
+    },
+
+    settled,
+
+    cancelChatroom(chatroomId) {
+      for (const entry of running.values()) {
+        if (entry.chatroomId === chatroomId) entry.controller.abort();
+      }
+    },
+  };
+}
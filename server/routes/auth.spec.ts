@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { cookieHeader, startTestServer } from "../testing";
+
+describe("auth routes", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+  });
+
+  afterAll(() => server.close());
+
+  const getMe = (cookie?: string) =>
+    fetch(`${server.baseUrl}/api/auth/me`, {
+      headers: cookie ? { Cookie: cookie } : {},
+    });
+
+  it("should sign up on first verification and carry the phone", async () => {
+    const cookie = await server.login("4155550100");
+    const response = await getMe(cookie);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).user).toMatchObject({
+      phone: "4155550100",
+      countryCode: "+1",
+    });
+  });
+
+  it("should reject requests without a session", async () => {
+    expect((await getMe()).status).toBe(401);
+    expect((await getMe("gemini_access=forged.token")).status).toBe(401);
+  });
+
+  it("should reject malformed cookies instead of failing", async () => {
+    const cookie = "other=%E0%A4%A; gemini_access=%E0%A4%A";
+    expect((await getMe(cookie)).status).toBe(401);
+
+    const refreshed = await server.post(
+      "/api/auth/refresh",
+      {},
+      "gemini_refresh=%E0%A4%A",
+    );
+    expect(refreshed.status).toBe(401);
+  });
+
+  it("should rotate the refresh token and reject the old one", async () => {
+    const cookie = await server.login("4155550101");
+
+    const refreshed = await server.post("/api/auth/refresh", {}, cookie);
+    expect(refreshed.status).toBe(200);
+    expect((await getMe(cookieHeader(refreshed))).status).toBe(200);
+
+    // Replaying the rotated-out token revokes the whole session
+    const replayed = await server.post("/api/auth/refresh", {}, cookie);
+    expect(replayed.status).toBe(401);
+    expect((await getMe(cookieHeader(refreshed))).status).toBe(401);
+  });
+
+  it("should end the session on logout", async () => {
+    const cookie = await server.login("4155550102");
+
+    const response = await server.post("/api/auth/logout", {}, cookie);
+    expect(response.status).toBe(204);
+    expect((await getMe(cookie)).status).toBe(401);
+  });
+
+  it("should list active sessions and revoke other devices", async () => {
+    const laptop = await server.login("4155550103", "Laptop");
+    const phone = await server.login("4155550103", "Phone");
+
+    const list = await fetch(`${server.baseUrl}/api/auth/sessions`, {
+      headers: { Cookie: laptop },
+    });
+    const { sessions } = await list.json();
+    expect(sessions).toHaveLength(2);
+
+    const current = sessions.find((session) => session.current);
+    const other = sessions.find((session) => !session.current);
+    expect(current.userAgent).toBe("Laptop");
+    expect(other.userAgent).toBe("Phone");
+
+    const revokeCurrent = await fetch(
+      `${server.baseUrl}/api/auth/sessions/${current.id}`,
+      { method: "DELETE", headers: { Cookie: laptop } },
+    );
+    expect(revokeCurrent.status).toBe(400);
+
+    const revokeOther = await fetch(
+      `${server.baseUrl}/api/auth/sessions/${other.id}`,
+      { method: "DELETE", headers: { Cookie: laptop } },
+    );
+    expect(revokeOther.status).toBe(204);
+    expect((await getMe(phone)).status).toBe(401);
+    expect((await getMe(laptop)).status).toBe(200);
+  });
+});
@@ -0,0 +1,181 @@
+import crypto from "crypto";
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  MeResponse,
+  OtpRequestResponse,
+  OtpVerifyResponse,
+  SessionDto,
+  SessionsResponse,
+  UserDto,
+} from "@shared/api";
+import { HttpError, sendError, sendValidationError } from "../errors";
+import type { OtpService } from "../auth/otp";
+import type { SessionService } from "../auth/sessions";
+import {
+  clearSessionCookies,
+  getAuth,
+  readRefreshToken,
+  setSessionCookies,
+} from "../auth/middleware";
+import { AuthError } from "../auth/tokens";
+import type {
+  SessionRecord,
+  UserRecord,
+  UserRepository,
+} from "../storage/types";
+
+const otpRequestSchema = z.object({
+  countryCode: z.string().regex(/^\+\d{1,4}$/, "Invalid country code"),
+  phoneNumber: z.string().regex(/^\d{6,15}$/, "Invalid phone number"),
+});
+
+const otpVerifySchema = otpRequestSchema.extend({
+  code: z.string().regex(/^\d{6}$/, "OTP must be exactly 6 digits"),
+});
+
+export function toUserDto(user: UserRecord): UserDto {
+  return { id: user.id, phone: user.phone, countryCode: user.countryCode };
+}
+
+export function createOtpRequestHandler(otp: OtpService): RequestHandler {
+  return async (req, res) => {
+    const parsed = otpRequestSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    try {
+      const { countryCode, phoneNumber } = parsed.data;
+      const { expiresAt, resendAvailableAt } = await otp.request(
+        `${countryCode}${phoneNumber}`,
+      );
+
+      const response: OtpRequestResponse = {
+        expiresAt: expiresAt.toISOString(),
+        resendAvailableAt: resendAvailableAt.toISOString(),
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      sendError(res, error, "Failed to send verification code");
+    }
+  };
+}
+
+export function createOtpVerifyHandler(
+  otp: OtpService,
+  users: UserRepository,
+  sessions: SessionService,
+): RequestHandler {
+  return async (req, res) => {
+    const parsed = otpVerifySchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    try {
+      const { countryCode, phoneNumber, code } = parsed.data;
+      await otp.verify(`${countryCode}${phoneNumber}`, code);
+
+      // First successful verification signs the user up
+      const user =
+        (await users.findByPhone(countryCode, phoneNumber)) ??
+        (await users.create({
+          id: crypto.randomUUID(),
+          phone: phoneNumber,
+          countryCode,
+          createdAt: new Date(),
+        }));
+
+      const tokens = await sessions.start(user.id, req.get("user-agent"));
+      setSessionCookies(res, tokens);
+
+      const response: OtpVerifyResponse = { user: toUserDto(user) };
+      res.status(200).json(response);
+    } catch (error) {
+      sendError(res, error, "Verification failed");
+    }
+  };
+}
+
+export function createRefreshHandler(sessions: SessionService): RequestHandler {
+  return async (req, res) => {
+    try {
+      const refreshToken = readRefreshToken(req);
+      if (!refreshToken) throw new AuthError();
+      const tokens = await sessions.refresh(refreshToken);
+      const { user } = await sessions.authenticate(tokens.accessToken);
+      setSessionCookies(res, tokens);
+
+      const response: MeResponse = { user: toUserDto(user) };
+      res.status(200).json(response);
+    } catch (error) {
+      clearSessionCookies(res);
+      sendError(res, error);
+    }
+  };
+}
+
+export const handleMe: RequestHandler = (_req, res) => {
+  const response: MeResponse = { user: toUserDto(getAuth(res).user) };
+  res.status(200).json(response);
+};
+
+export function createLogoutHandler(sessions: SessionService): RequestHandler {
+  return async (_req, res) => {
+    try {
+      await sessions.revoke(getAuth(res).session.id);
+      clearSessionCookies(res);
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+}
+
+function toSessionDto(session: SessionRecord, currentId: string): SessionDto {
+  return {
+    id: session.id,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt.toISOString(),
+    lastSeenAt: session.lastSeenAt.toISOString(),
+    current: session.id === currentId,
+  };
+}
+
+export function createListSessionsHandler(
+  sessions: SessionService,
+): RequestHandler {
+  return async (_req, res) => {
+    try {
+      const { user, session } = getAuth(res);
+      const active = await sessions.listActive(user.id);
+
+      const response: SessionsResponse = {
+        sessions: active.map((item) => toSessionDto(item, session.id)),
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+}
+
+export function createRevokeSessionHandler(
+  sessions: SessionService,
+): RequestHandler {
+  return async (req, res) => {
+    try {
+      const { user, session } = getAuth(res);
+      if (req.params.id === session.id) {
+        throw new HttpError("Use logout to end the current session", 400);
+      }
+
+      const active = await sessions.listActive(user.id);
+      if (!active.some((item) => item.id === req.params.id)) {
+        throw new HttpError("Session not found", 404);
+      }
+
+      await sessions.revoke(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+}
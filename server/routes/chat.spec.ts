@@ -0,0 +1,211 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  createMockProvider,
+  type GenerateRequest,
+  type LLMProvider,
+} from "../providers";
+import { startTestServer } from "../testing";
+import { readSseData } from "@shared/sse";
+import type { ChatStreamEvent } from "@shared/api";
+
+describe("GET /api/models", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let cookie: string;
+
+  beforeAll(async () => {
+    server = await startTestServer({
+      providers: [
+        createMockProvider({ models: ["mock-fast", "mock-smart"] }),
+        createMockProvider({ models: ["mock-echo"] }),
+      ],
+    });
+    cookie = await server.login();
+  });
+
+  afterAll(() => server.close());
+
+  it("should list every provider's models with the default first", async () => {
+    const response = await server.api("/api/models", { cookie });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      models: [
+        { id: "mock-fast", provider: "mock" },
+        { id: "mock-smart", provider: "mock" },
+        { id: "mock-echo", provider: "mock" },
+      ],
+      defaultModel: "mock-fast",
+    });
+  });
+});
+
+describe("POST /api/chat", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let cookie: string;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+    cookie = await server.login();
+  });
+
+  afterAll(() => server.close());
+
+  it("should reply using the default model", async () => {
+    const response = await server.post(
+      "/api/chat",
+      { messages: [{ sender: "user", content: "Hi" }] },
+      cookie,
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      content: 'You said: "Hi"',
+      model: "mock-echo",
+    });
+  });
+
+  it("should require an authenticated session", async () => {
+    const response = await server.post("/api/chat", {
+      messages: [{ sender: "user", content: "Hi" }],
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should reject an empty conversation", async () => {
+    const response = await server.post("/api/chat", { messages: [] }, cookie);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "messages must not be empty",
+    });
+  });
+
+  it("should reject unknown models", async () => {
+    const response = await server.post(
+      "/api/chat",
+      {
+        messages: [{ sender: "user", content: "Hi" }],
+        model: "does-not-exist",
+      },
+      cookie,
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should pass the chat's settings to the provider", async () => {
+    const requests: GenerateRequest[] = [];
+    const recording: LLMProvider = {
+      id: "recording",
+      models: ["recording"],
+      async generate(request) {
+        requests.push(request);
+        return { text: "ok" };
+      },
+      async *stream() {},
+    };
+    const recordingServer = await startTestServer({ providers: [recording] });
+    const settings = {
+      systemInstruction: "Answer in French",
+      temperature: 0.2,
+      stopSequences: ["END"],
+    };
+
+    const response = await recordingServer.post(
+      "/api/chat",
+      { messages: [{ sender: "user", content: "Hi" }], settings },
+      await recordingServer.login(),
+    );
+
+    expect(response.status).toBe(200);
+    expect(requests[0].settings).toEqual(settings);
+    await recordingServer.close();
+  });
+
+  it("should reject settings out of range", async () => {
+    const response = await server.post(
+      "/api/chat",
+      {
+        messages: [{ sender: "user", content: "Hi" }],
+        settings: { temperature: 3 },
+      },
+      cookie,
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("POST /api/chat/stream", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let cookie: string;
+
+  beforeAll(async () => {
+    server = await startTestServer({
+      providers: [createMockProvider({ chunkDelayMs: 1 })],
+    });
+    cookie = await server.login();
+  });
+
+  afterAll(() => server.close());
+
+  it("should stream the reply word by word and finish with done", async () => {
+    const response = await server.post(
+      "/api/chat/stream",
+      { messages: [{ sender: "user", content: "Tell me more" }] },
+      cookie,
+    );
+
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+
+    const events: ChatStreamEvent[] = [];
+    for await (const data of readSseData(response.body)) {
+      events.push(JSON.parse(data));
+    }
+
+    expect(events).toEqual([
+      { type: "chunk", text: "You " },
+      { type: "chunk", text: "said: " },
+      { type: "chunk", text: '"Tell ' },
+      { type: "chunk", text: "me " },
+      { type: "chunk", text: 'more"' },
+      { type: "done", model: "mock-echo" },
+    ]);
+  });
+
+  it("should cancel the provider when the client stops reading", async () => {
+    let aborted: () => void;
+    const providerAborted = new Promise<void>((resolve) => {
+      aborted = resolve;
+    });
+    const endless: LLMProvider = {
+      id: "endless",
+      models: ["endless"],
+      generate: async () => ({ text: "" }),
+      async *stream({ signal }) {
+        signal?.addEventListener("abort", () => aborted());
+        while (!signal?.aborted) {
+          yield "more ";
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+      },
+    };
+    const endlessServer = await startTestServer({ providers: [endless] });
+    const endlessCookie = await endlessServer.login();
+
+    const controller = new AbortController();
+    const response = await fetch(`${endlessServer.baseUrl}/api/chat/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Cookie: endlessCookie },
+      body: JSON.stringify({ messages: [{ sender: "user", content: "Go" }] }),
+      signal: controller.signal,
+    });
+    const reader = response.body.getReader();
+    await reader.read();
+    controller.abort();
+
+    await providerAborted;
+    await endlessServer.close();
+  });
+});
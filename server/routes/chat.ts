@@ -0,0 +1,162 @@
+import { Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+import {
+  ChatMessage,
+  ChatResponse,
+  ChatStreamEvent,
+  GENERATION_LIMITS,
+  GenerationSettings,
+  ModelsResponse,
+} from "@shared/api";
+import { formatSseData } from "@shared/sse";
+import { sendError, sendValidationError } from "../errors";
+import type { ProviderRegistry } from "../providers";
+
+const { temperature, topP, maxOutputTokens } = GENERATION_LIMITS;
+
+export const generationSettingsSchema = z.object({
+  systemInstruction: z
+    .string()
+    .max(GENERATION_LIMITS.systemInstructionLength)
+    .optional(),
+  temperature: z.number().min(temperature.min).max(temperature.max).optional(),
+  topP: z.number().min(topP.min).max(topP.max).optional(),
+  maxOutputTokens: z
+    .number()
+    .int()
+    .min(maxOutputTokens.min)
+    .max(maxOutputTokens.max)
+    .optional(),
+  stopSequences: z
+    .array(z.string().min(1))
+    .max(GENERATION_LIMITS.stopSequences)
+    .optional(),
+});
+
+const chatRequestSchema = z.object({
+  messages: z
+    .array(
+      z.object({
+        sender: z.enum(["user", "ai"]),
+        content: z.string(),
+        imageUrl: z.string().optional(),
+      }),
+    )
+    .min(1, "messages must not be empty"),
+  model: z.string().optional(),
+  settings: generationSettingsSchema.optional(),
+});
+
+// Validates the body and picks the provider; responds with 400 and
+// returns null when the request can't be served
+function prepareGeneration(
+  registry: ProviderRegistry,
+  req: Request,
+  res: Response,
+) {
+  const parsed = chatRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    sendValidationError(res, parsed.error);
+    return null;
+  }
+
+  try {
+    const { provider, model } = registry.resolve(parsed.data.model);
+    return {
+      provider,
+      request: {
+        model,
+        messages: parsed.data.messages as ChatMessage[],
+        settings: parsed.data.settings as GenerationSettings,
+      },
+    };
+  } catch (error) {
+    sendError(res, error, "Generation failed");
+    return null;
+  }
+}
+
+// Aborts once the connection closes before the response was sent, e.g.
+// when the user stops the reply, so the provider stops generating too
+function abortOnClose(res: Response) {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+/**
+ * Lists the models of every configured provider, for the model picker
+ */
+export function createModelsHandler(
+  registry: ProviderRegistry,
+): RequestHandler {
+  return (_req, res) => {
+    const response: ModelsResponse = {
+      models: registry.providers.flatMap((provider) =>
+        provider.models.map((id) => ({ id, provider: provider.id })),
+      ),
+      defaultModel: registry.defaultModel,
+    };
+    res.status(200).json(response);
+  };
+}
+
+export function createChatHandler(registry: ProviderRegistry): RequestHandler {
+  return async (req, res) => {
+    const generation = prepareGeneration(registry, req, res);
+    if (!generation) return;
+    const signal = abortOnClose(res);
+
+    try {
+      const { provider, request } = generation;
+      const result = await provider.generate({ ...request, signal });
+
+      const response: ChatResponse = {
+        content: result.text,
+        model: request.model,
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      if (!signal.aborted) sendError(res, error, "Generation failed");
+    }
+  };
+}
+
+export function createChatStreamHandler(
+  registry: ProviderRegistry,
+): RequestHandler {
+  return async (req, res) => {
+    const generation = prepareGeneration(registry, req, res);
+    if (!generation) return;
+    const signal = abortOnClose(res);
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const send = (event: ChatStreamEvent) => res.write(formatSseData(event));
+
+    try {
+      const { provider, request } = generation;
+      for await (const text of provider.stream({ ...request, signal })) {
+        if (signal.aborted) break;
+        send({ type: "chunk", text });
+      }
+      if (!signal.aborted) send({ type: "done", model: request.model });
+    } catch (error) {
+      // Nobody is listening any more
+      if (signal.aborted) return;
+      // Headers are already sent, so failures are reported in-band
+      send({
+        type: "error",
+        error: error instanceof Error ? error.message : "Generation failed",
+      });
+    } finally {
+      res.end();
+    }
+  };
+}
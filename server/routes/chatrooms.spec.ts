@@ -0,0 +1,250 @@
+import crypto from "crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "../testing";
+
+describe("chatroom routes", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let alice: string;
+  let bob: string;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+    alice = await server.login("4155550110");
+    bob = await server.login("4155550111");
+  });
+
+  afterAll(() => server.close());
+
+  const createRoom = async (cookie: string, title = "Trip planning") => {
+    const response = await server.api("/api/chatrooms", {
+      body: { id: crypto.randomUUID(), title },
+      cookie,
+    });
+    return response.json();
+  };
+
+  it("should persist chatrooms and their messages per user", async () => {
+    const room = await createRoom(alice);
+
+    const saved = await server.api(`/api/chatrooms/${room.id}/messages`, {
+      body: {
+        id: "m1",
+        sender: "user",
+        content: "Where should I go?",
+        timestamp: "2025-01-01T10:00:00.000Z",
+      },
+      cookie: alice,
+    });
+    expect(saved.status).toBe(201);
+
+    const list = await server.api("/api/chatrooms", { cookie: alice });
+    expect((await list.json()).chatrooms).toContainEqual({
+      ...room,
+      lastMessageAt: "2025-01-01T10:00:00.000Z",
+    });
+
+    const messages = await server.api(`/api/chatrooms/${room.id}/messages`, {
+      cookie: alice,
+    });
+    expect(await messages.json()).toEqual({
+      messages: [
+        {
+          id: "m1",
+          sender: "user",
+          content: "Where should I go?",
+          timestamp: "2025-01-01T10:00:00.000Z",
+        },
+      ],
+      hasMore: false,
+    });
+  });
+
+  it("should upsert messages by id", async () => {
+    const room = await createRoom(alice);
+    const message = {
+      id: "streamed",
+      sender: "ai",
+      content: "Par",
+      timestamp: "2025-01-01T10:00:00.000Z",
+    };
+
+    await server.api(`/api/chatrooms/${room.id}/messages`, {
+      body: message,
+      cookie: alice,
+    });
+    const final = await server.api(`/api/chatrooms/${room.id}/messages`, {
+      body: { ...message, content: "Paris" },
+      cookie: alice,
+    });
+    expect(final.status).toBe(200);
+
+    const messages = await server.api(`/api/chatrooms/${room.id}/messages`, {
+      cookie: alice,
+    });
+    expect((await messages.json()).messages).toHaveLength(1);
+  });
+
+  it("should page backwards through history with a cursor", async () => {
+    const room = await createRoom(alice);
+    for (let i = 1; i <= 5; i++) {
+      await server.api(`/api/chatrooms/${room.id}/messages`, {
+        body: {
+          id: `page-${i}`,
+          sender: i % 2 ? "user" : "ai",
+          content: `Message ${i}`,
+          timestamp: new Date(Date.UTC(2025, 0, 1, 10, i)).toISOString(),
+        },
+        cookie: alice,
+      });
+    }
+
+    const page = async (query: string) => {
+      const response = await server.api(
+        `/api/chatrooms/${room.id}/messages?${query}`,
+        { cookie: alice },
+      );
+      const { messages, hasMore } = await response.json();
+      return { ids: messages.map((m: { id: string }) => m.id), hasMore };
+    };
+
+    expect(await page("limit=2")).toEqual({
+      ids: ["page-4", "page-5"],
+      hasMore: true,
+    });
+    expect(await page("limit=2&before=page-4")).toEqual({
+      ids: ["page-2", "page-3"],
+      hasMore: true,
+    });
+    expect(await page("limit=2&before=page-2")).toEqual({
+      ids: ["page-1"],
+      hasMore: false,
+    });
+
+    const unknown = await server.api(
+      `/api/chatrooms/${room.id}/messages?before=missing`,
+      { cookie: alice },
+    );
+    expect(unknown.status).toBe(400);
+  });
+
+  it("should hide chatrooms from other users", async () => {
+    const room = await createRoom(alice);
+
+    const list = await server.api("/api/chatrooms", { cookie: bob });
+    expect((await list.json()).chatrooms).toEqual([]);
+
+    const messages = await server.api(`/api/chatrooms/${room.id}/messages`, {
+      cookie: bob,
+    });
+    expect(messages.status).toBe(404);
+
+    const deleted = await server.api(`/api/chatrooms/${room.id}`, {
+      method: "DELETE",
+      cookie: bob,
+    });
+    expect(deleted.status).toBe(404);
+  });
+
+  it("should rename, configure and delete chatrooms", async () => {
+    const room = await createRoom(alice);
+
+    const renamed = await server.api(`/api/chatrooms/${room.id}`, {
+      method: "PATCH",
+      body: { title: "Renamed" },
+      cookie: alice,
+    });
+    expect((await renamed.json()).title).toBe("Renamed");
+
+    const switched = await server.api(`/api/chatrooms/${room.id}`, {
+      method: "PATCH",
+      body: { model: "mock-echo" },
+      cookie: alice,
+    });
+    expect(await switched.json()).toMatchObject({
+      title: "Renamed",
+      model: "mock-echo",
+    });
+
+    const configured = await server.api(`/api/chatrooms/${room.id}`, {
+      method: "PATCH",
+      body: { settings: { systemInstruction: "Be brief", topP: 0.9 } },
+      cookie: alice,
+    });
+    expect((await configured.json()).settings).toEqual({
+      systemInstruction: "Be brief",
+      topP: 0.9,
+    });
+
+    const canvas = {
+      title: "sort.py",
+      language: "python",
+      versions: [
+        {
+          id: "v1",
+          content: "def sort(items): ...",
+          note: "Drafted by Gemini",
+          savedAt: new Date().toISOString(),
+        },
+      ],
+    };
+    const drafted = await server.api(`/api/chatrooms/${room.id}`, {
+      method: "PATCH",
+      body: { canvas },
+      cookie: alice,
+    });
+    expect((await drafted.json()).canvas).toEqual(canvas);
+
+    // A canvas always has a current version
+    const emptied = await server.api(`/api/chatrooms/${room.id}`, {
+      method: "PATCH",
+      body: { canvas: { ...canvas, versions: [] } },
+      cookie: alice,
+    });
+    expect(emptied.status).toBe(400);
+
+    const deleted = await server.api(`/api/chatrooms/${room.id}`, {
+      method: "DELETE",
+      cookie: alice,
+    });
+    expect(deleted.status).toBe(204);
+
+    const messages = await server.api(`/api/chatrooms/${room.id}/messages`, {
+      cookie: alice,
+    });
+    expect(messages.status).toBe(404);
+  });
+
+  it("should reject unknown models and other users' Gems", async () => {
+    const gem = await server.api("/api/gems", {
+      body: { name: "Editor", icon: "✏️", instructions: "Fix my prose" },
+      cookie: bob,
+    });
+    const gemId = (await gem.json()).id;
+
+    const unknownModel = await server.api("/api/chatrooms", {
+      body: { id: crypto.randomUUID(), model: "gpt-unknown" },
+      cookie: alice,
+    });
+    expect(unknownModel.status).toBe(400);
+
+    const othersGem = await server.api("/api/chatrooms", {
+      body: { id: crypto.randomUUID(), gemId },
+      cookie: alice,
+    });
+    expect(othersGem.status).toBe(400);
+
+    const ownGem = await server.api("/api/chatrooms", {
+      body: { id: crypto.randomUUID(), gemId },
+      cookie: bob,
+    });
+    expect(ownGem.status).toBe(201);
+
+    const room = await createRoom(alice);
+    const switched = await server.api(`/api/chatrooms/${room.id}`, {
+      method: "PATCH",
+      body: { model: "gpt-unknown" },
+      cookie: alice,
+    });
+    expect(switched.status).toBe(400);
+  });
+});
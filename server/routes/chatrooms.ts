@@ -0,0 +1,301 @@
+import crypto from "crypto";
+import { Response, Router } from "express";
+import { z } from "zod";
+import {
+  CANVAS_LIMITS,
+  ChatroomDto,
+  ChatroomsResponse,
+  MessageDto,
+  MessagesResponse,
+} from "@shared/api";
+import { HttpError, sendError, sendValidationError } from "../errors";
+import { generationSettingsSchema } from "./chat";
+import { getAuth } from "../auth/middleware";
+import type { ResearchService } from "../research/jobs";
+import type { ProviderRegistry } from "../providers";
+import type {
+  ChatroomRecord,
+  ChatroomRepository,
+  GemRepository,
+  MessageRecord,
+  MessageRepository,
+} from "../storage/types";
+
+const MAX_TITLE_LENGTH = 200;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+const canvasSchema = z.object({
+  title: z.string().max(CANVAS_LIMITS.titleLength),
+  language: z.string().min(1).max(CANVAS_LIMITS.languageLength).optional(),
+  versions: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        content: z.string().max(CANVAS_LIMITS.contentLength),
+        note: z.string().max(CANVAS_LIMITS.titleLength),
+        savedAt: z.string().datetime(),
+      }),
+    )
+    .min(1)
+    .max(CANVAS_LIMITS.versions),
+});
+
+const createChatroomSchema = z.object({
+  id: z.string().uuid().optional(),
+  title: z.string().max(MAX_TITLE_LENGTH).optional(),
+  model: z.string().min(1).optional(),
+  settings: generationSettingsSchema.optional(),
+  gemId: z.string().min(1).optional(),
+  createdAt: z.string().datetime().optional(),
+});
+
+const updateChatroomSchema = z.object({
+  title: z.string().min(1).max(MAX_TITLE_LENGTH).optional(),
+  model: z.string().min(1).optional(),
+  settings: generationSettingsSchema.optional(),
+  canvas: canvasSchema.optional(),
+});
+
+const messagesQuerySchema = z.object({
+  before: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+});
+
+const messageSchema = z.object({
+  id: z.string().min(1),
+  sender: z.enum(["user", "ai"]),
+  content: z.string(),
+  imageUrl: z.string().optional(),
+  parentId: z.string().min(1).nullable().optional(),
+  status: z.enum(["pending", "sent", "failed", "stopped"]).optional(),
+  model: z.string().min(1).optional(),
+  researchJobId: z.string().min(1).optional(),
+  timestamp: z.string().datetime(),
+});
+
+export function toChatroomDto(room: ChatroomRecord): ChatroomDto {
+  return {
+    id: room.id,
+    title: room.title,
+    model: room.model,
+    settings: room.settings,
+    gemId: room.gemId,
+    canvas: room.canvas,
+    createdAt: room.createdAt.toISOString(),
+    lastMessageAt: room.lastMessageAt?.toISOString(),
+  };
+}
+
+export function toMessageDto(message: MessageRecord): MessageDto {
+  return {
+    id: message.id,
+    sender: message.sender,
+    content: message.content,
+    imageUrl: message.imageUrl,
+    parentId: message.parentId,
+    status: message.status,
+    model: message.model,
+    researchJobId: message.researchJobId,
+    timestamp: message.timestamp.toISOString(),
+  };
+}
+
+export interface ChatroomsRouterOptions {
+  chatrooms: ChatroomRepository;
+  messages: MessageRepository;
+  /** Chatrooms may only be started with the user's own Gems */
+  gems: GemRepository;
+  /** Chatrooms may only pick models it serves */
+  registry: ProviderRegistry;
+  /** Its jobs for a chatroom are stopped when the chatroom is deleted */
+  research?: ResearchService;
+}
+
+/**
+ * CRUD for the signed-in user's chatrooms and their messages.
+ * Must be mounted behind requireAuth().
+ */
+export function createChatroomsRouter({
+  chatrooms,
+  messages,
+  gems,
+  registry,
+  research,
+}: ChatroomsRouterOptions) {
+  const router = Router();
+
+  // Other users' chatrooms are reported as missing rather than forbidden
+  const findOwned = async (res: Response, id: string) => {
+    const room = await chatrooms.findById(id);
+    if (!room || room.userId !== getAuth(res).user.id) {
+      throw new HttpError("Chatroom not found", 404);
+    }
+    return room;
+  };
+
+  // Unknown models and other users' Gems are rejected as bad input
+  const assertUsable = async (
+    res: Response,
+    { model, gemId }: { model?: string; gemId?: string },
+  ) => {
+    if (model) registry.resolve(model);
+    if (gemId) {
+      const gem = await gems.findById(gemId);
+      if (!gem || gem.userId !== getAuth(res).user.id) {
+        throw new HttpError("Unknown Gem", 400);
+      }
+    }
+  };
+
+  router.get("/", async (_req, res) => {
+    try {
+      const rooms = await chatrooms.listByUser(getAuth(res).user.id);
+      const response: ChatroomsResponse = {
+        chatrooms: rooms.map(toChatroomDto),
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.post("/", async (req, res) => {
+    const parsed = createChatroomSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    try {
+      const { id, title, model, settings, gemId, createdAt } = parsed.data;
+
+      // Creating with a known id is idempotent so clients can safely retry
+      if (id && (await chatrooms.findById(id))) {
+        const existing = await findOwned(res, id);
+        return res.status(200).json(toChatroomDto(existing));
+      }
+      await assertUsable(res, { model, gemId });
+
+      const room: ChatroomRecord = {
+        id: id ?? crypto.randomUUID(),
+        userId: getAuth(res).user.id,
+        title: title || "New Chat",
+        model,
+        settings,
+        gemId,
+        createdAt: createdAt ? new Date(createdAt) : new Date(),
+      };
+      await chatrooms.save(room);
+      res.status(201).json(toChatroomDto(room));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.patch("/:id", async (req, res) => {
+    const parsed = updateChatroomSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    try {
+      const room = await findOwned(res, req.params.id);
+      const { canvas, ...changes } = parsed.data;
+      await assertUsable(res, changes);
+      const updated: ChatroomRecord = { ...room, ...changes };
+      if (canvas) {
+        updated.canvas = {
+          title: canvas.title,
+          language: canvas.language,
+          versions: canvas.versions.map((version) => ({
+            id: version.id,
+            content: version.content,
+            note: version.note,
+            savedAt: version.savedAt,
+          })),
+        };
+      }
+      await chatrooms.save(updated);
+      res.status(200).json(toChatroomDto(updated));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.delete("/:id", async (req, res) => {
+    try {
+      await findOwned(res, req.params.id);
+      await chatrooms.delete(req.params.id);
+      research?.cancelChatroom(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.get("/:id/messages", async (req, res) => {
+    const parsed = messagesQuerySchema.safeParse(req.query);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    try {
+      const room = await findOwned(res, req.params.id);
+      const { before: cursor, limit = DEFAULT_PAGE_SIZE } = parsed.data;
+
+      let before: MessageRecord | undefined;
+      if (cursor) {
+        before = await messages.findById(cursor);
+        if (!before || before.chatroomId !== room.id) {
+          throw new HttpError("Unknown message cursor", 400);
+        }
+      }
+
+      // One extra row tells whether anything older remains
+      const page = await messages.listByChatroom(room.id, {
+        before,
+        limit: limit + 1,
+      });
+      const hasMore = page.length > limit;
+      const response: MessagesResponse = {
+        messages: (hasMore ? page.slice(1) : page).map(toMessageDto),
+        hasMore,
+      };
+      res.status(200).json(response);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Upserts by message id, so a streamed reply can be saved again once final
+  router.post("/:id/messages", async (req, res) => {
+    const parsed = messageSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    try {
+      const room = await findOwned(res, req.params.id);
+      const existing = await messages.findById(parsed.data.id);
+      if (existing && existing.chatroomId !== room.id) {
+        throw new HttpError("Message belongs to another chatroom", 409);
+      }
+
+      const message: MessageRecord = {
+        id: parsed.data.id,
+        chatroomId: room.id,
+        sender: parsed.data.sender,
+        content: parsed.data.content,
+        imageUrl: parsed.data.imageUrl,
+        parentId: parsed.data.parentId,
+        status: parsed.data.status,
+        model: parsed.data.model,
+        researchJobId: parsed.data.researchJobId,
+        timestamp: new Date(parsed.data.timestamp),
+      };
+      await messages.save(message);
+
+      if (!room.lastMessageAt || message.timestamp > room.lastMessageAt) {
+        await chatrooms.save({ ...room, lastMessageAt: message.timestamp });
+      }
+
+      res.status(existing ? 200 : 201).json(toMessageDto(message));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return router;
+}
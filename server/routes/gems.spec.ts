@@ -0,0 +1,111 @@
+import crypto from "crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "../testing";
+
+describe("gem routes", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let alice: string;
+  let bob: string;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+    alice = await server.login("4155550120");
+    bob = await server.login("4155550121");
+  });
+
+  afterAll(() => server.close());
+
+  const tutor = {
+    name: "Math tutor",
+    icon: "🧮",
+    instructions: "Explain step by step.",
+    model: "mock-echo",
+    starterPrompts: ["Explain derivatives"],
+  };
+
+  it("should create, list and update Gems per user", async () => {
+    const id = crypto.randomUUID();
+    const created = await server.api("/api/gems", {
+      body: { ...tutor, id },
+      cookie: alice,
+    });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({ ...tutor, id });
+
+    // Retrying the creation returns the same Gem
+    const retried = await server.api("/api/gems", {
+      body: { ...tutor, id },
+      cookie: alice,
+    });
+    expect(retried.status).toBe(200);
+
+    const updated = await server.api(`/api/gems/${id}`, {
+      method: "PUT",
+      body: { name: "Tutor", icon: "📐", instructions: "Be brief." },
+      cookie: alice,
+    });
+    expect(await updated.json()).toMatchObject({
+      id,
+      name: "Tutor",
+      icon: "📐",
+      instructions: "Be brief.",
+      starterPrompts: [],
+    });
+
+    const list = await server.api("/api/gems", { cookie: alice });
+    const { gems } = await list.json();
+    expect(gems).toHaveLength(1);
+    expect(gems[0].model).toBeUndefined();
+
+    const others = await server.api("/api/gems", { cookie: bob });
+    expect((await others.json()).gems).toEqual([]);
+  });
+
+  it("should hide Gems from other users", async () => {
+    const created = await server.api("/api/gems", {
+      body: tutor,
+      cookie: alice,
+    });
+    const gem = await created.json();
+
+    const updated = await server.api(`/api/gems/${gem.id}`, {
+      method: "PUT",
+      body: tutor,
+      cookie: bob,
+    });
+    expect(updated.status).toBe(404);
+
+    const deleted = await server.api(`/api/gems/${gem.id}`, {
+      method: "DELETE",
+      cookie: bob,
+    });
+    expect(deleted.status).toBe(404);
+  });
+
+  it("should delete Gems", async () => {
+    const created = await server.api("/api/gems", {
+      body: tutor,
+      cookie: alice,
+    });
+    const gem = await created.json();
+
+    const deleted = await server.api(`/api/gems/${gem.id}`, {
+      method: "DELETE",
+      cookie: alice,
+    });
+    expect(deleted.status).toBe(204);
+
+    const list = await server.api("/api/gems", { cookie: alice });
+    expect((await list.json()).gems).not.toContainEqual(gem);
+  });
+
+  it("should require a name", async () => {
+    const response = await server.api("/api/gems", {
+      body: { ...tutor, name: " " },
+      cookie: alice,
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "name is required" });
+  });
+});
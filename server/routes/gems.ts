@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import { Response, Router } from "express";
+import { z } from "zod";
+import {
+  GEM_LIMITS,
+  GemDto,
+  GemsResponse,
+  GENERATION_LIMITS,
+} from "@shared/api";
+import { HttpError, sendError, sendValidationError } from "../errors";
+import { getAuth } from "../auth/middleware";
+import type { GemRecord, GemRepository } from "../storage/types";
+
+const gemSchema = z.object({
+  name: z.string().trim().min(1, "name is required").max(GEM_LIMITS.nameLength),
+  // A single emoji can span several code units
+  icon: z.string().min(1).max(16),
+  instructions: z.string().max(GENERATION_LIMITS.systemInstructionLength),
+  model: z.string().min(1).optional(),
+  starterPrompts: z
+    .array(z.string().trim().min(1).max(GEM_LIMITS.starterPromptLength))
+    .max(GEM_LIMITS.starterPrompts)
+    .default([]),
+});
+
+type GemFields = Pick<
+  GemRecord,
+  "name" | "icon" | "instructions" | "model" | "starterPrompts"
+>;
+
+const createGemSchema = gemSchema.extend({
+  id: z.string().uuid().optional(),
+});
+
+export function toGemDto(gem: GemRecord): GemDto {
+  return {
+    id: gem.id,
+    name: gem.name,
+    icon: gem.icon,
+    instructions: gem.instructions,
+    model: gem.model,
+    starterPrompts: gem.starterPrompts,
+    createdAt: gem.createdAt.toISOString(),
+    updatedAt: gem.updatedAt.toISOString(),
+  };
+}
+
+export interface GemsRouterOptions {
+  gems: GemRepository;
+}
+
+/**
+ * CRUD for the signed-in user's Gems. Must be mounted behind requireAuth().
+ */
+export function createGemsRouter({ gems }: GemsRouterOptions) {
+  const router = Router();
+
+  // Other users' Gems are reported as missing rather than forbidden
+  const findOwned = async (res: Response, id: string) => {
+    const gem = await gems.findById(id);
+    if (!gem || gem.userId !== getAuth(res).user.id) {
+      throw new HttpError("Gem not found", 404);
+    }
+    return gem;
+  };
+
+  router.get("/", async (_req, res) => {
+    try {
+      const list = await gems.listByUser(getAuth(res).user.id);
+      const response: GemsResponse = { gems: list.map(toGemDto) };
+      res.status(200).json(response);
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.post("/", async (req, res) => {
+    const parsed = createGemSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    try {
+      const { id, ...fields } = parsed.data;
+
+      // Creating with a known id is idempotent so clients can safely retry
+      if (id && (await gems.findById(id))) {
+        const existing = await findOwned(res, id);
+        return res.status(200).json(toGemDto(existing));
+      }
+
+      const now = new Date();
+      const gem: GemRecord = {
+        ...(fields as GemFields),
+        id: id ?? crypto.randomUUID(),
+        userId: getAuth(res).user.id,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await gems.save(gem);
+      res.status(201).json(toGemDto(gem));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.put("/:id", async (req, res) => {
+    const parsed = gemSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    try {
+      const { id, userId, createdAt } = await findOwned(res, req.params.id);
+      // Replaces every editable field, so cleared ones do not linger
+      const updated: GemRecord = {
+        ...(parsed.data as GemFields),
+        id,
+        userId,
+        createdAt,
+        updatedAt: new Date(),
+      };
+      await gems.save(updated);
+      res.status(200).json(toGemDto(updated));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.delete("/:id", async (req, res) => {
+    try {
+      await findOwned(res, req.params.id);
+      await gems.delete(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return router;
+}
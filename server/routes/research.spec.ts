@@ -0,0 +1,196 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { ResearchJobDto } from "@shared/api";
+import type { GenerateRequest, LLMProvider } from "../providers";
+import type { ResearchTool } from "../research/jobs";
+import { startTestServer } from "../testing";
+
+// Plans two sub-questions, answers each, and cites both in the report.
+// Planning "hold on" waits until the job is cancelled.
+const researcher: LLMProvider = {
+  id: "researcher",
+  models: ["research-model"],
+  async generate({ messages, signal }: GenerateRequest) {
+    const prompt = messages[0].content;
+    if (prompt.startsWith("You are planning")) {
+      if (prompt.includes("hold on")) {
+        await new Promise((resolve) =>
+          signal?.addEventListener("abort", resolve),
+        );
+      }
+      return { text: "1. What is Rayleigh scattering?\n2. Why not violet?" };
+    }
+    if (prompt.startsWith("You are researching")) {
+      return { text: `Answer from notes: ${prompt.includes("Notes on")}` };
+    }
+    return {
+      text: "Short wavelengths scatter most [1], eyes do the rest [2].",
+    };
+  },
+  async *stream() {},
+};
+
+const encyclopedia: ResearchTool = {
+  name: "encyclopedia",
+  async search(query) {
+    return {
+      content: `Notes on ${query}`,
+      sources: [{ title: query, url: "https://example.com/wiki" }],
+    };
+  },
+};
+
+describe("research routes", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let alice: string;
+  let bob: string;
+  let roomId: string;
+
+  beforeAll(async () => {
+    server = await startTestServer({
+      providers: [researcher],
+      researchTools: [encyclopedia],
+    });
+    alice = await server.login("4155550120");
+    bob = await server.login("4155550121");
+    roomId = await createRoom(alice);
+  });
+
+  afterAll(() => server.close());
+
+  const createRoom = async (cookie: string): Promise<string> => {
+    const response = await server.api("/api/chatrooms", {
+      body: { title: "Research" },
+      cookie,
+    });
+    return (await response.json()).id;
+  };
+
+  const start = (question: string, cookie = alice, chatroomId = roomId) =>
+    server.api("/api/research", {
+      body: { chatroomId, question },
+      cookie,
+    });
+
+  const waitForJob = async (
+    id: string,
+    cookie = alice,
+  ): Promise<ResearchJobDto> => {
+    for (;;) {
+      const response = await server.api(`/api/research/${id}`, { cookie });
+      const job: ResearchJobDto = await response.json();
+      if (job.status !== "running") return job;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  it("should plan, research each sub-question and write a cited report", async () => {
+    const response = await start("Why is the sky blue?");
+    expect(response.status).toBe(202);
+    const started: ResearchJobDto = await response.json();
+    expect(started).toMatchObject({
+      chatroomId: roomId,
+      question: "Why is the sky blue?",
+      model: "research-model",
+      status: "running",
+    });
+
+    const job = await waitForJob(started.id);
+    expect(job.status).toBe("completed");
+    expect(job.steps.map((step) => [step.kind, step.status])).toEqual([
+      ["plan", "done"],
+      ["search", "done"],
+      ["search", "done"],
+      ["report", "done"],
+    ]);
+    expect(job.steps[1]).toMatchObject({
+      title: "What is Rayleigh scattering?",
+      output: "Answer from notes: true",
+      sources: [
+        {
+          title: "What is Rayleigh scattering?",
+          url: "https://example.com/wiki",
+        },
+      ],
+    });
+    expect(job.report).toContain("Short wavelengths scatter most [1]");
+    expect(job.report).toContain("## Sources");
+    expect(job.report).toContain("2. Why not violet?");
+    expect(job.report).toContain(
+      "[What is Rayleigh scattering?](https://example.com/wiki)",
+    );
+  });
+
+  it("should hide jobs from other users", async () => {
+    const { id } = await (await start("Why is grass green?")).json();
+    await waitForJob(id);
+
+    const response = await server.api(`/api/research/${id}`, { cookie: bob });
+    expect(response.status).toBe(404);
+    const cancel = await server.api(`/api/research/${id}/cancel`, {
+      method: "POST",
+      cookie: bob,
+    });
+    expect(cancel.status).toBe(404);
+  });
+
+  it("should stop a job when cancelled", async () => {
+    const { id } = await (await start("Please hold on")).json();
+
+    const response = await server.api(`/api/research/${id}/cancel`, {
+      method: "POST",
+      cookie: alice,
+    });
+    expect(response.status).toBe(200);
+    const job: ResearchJobDto = await response.json();
+    expect(job.status).toBe("cancelled");
+    expect(job.steps).toMatchObject([{ kind: "plan", status: "failed" }]);
+  });
+
+  it("should reject empty questions and unknown models", async () => {
+    expect((await start("  ")).status).toBe(400);
+
+    const response = await server.api("/api/research", {
+      body: { chatroomId: roomId, question: "Hi", model: "nope" },
+      cookie: alice,
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("should only research in the user's own chatrooms", async () => {
+    expect((await start("Why?", bob)).status).toBe(404);
+    expect((await start("Why?", alice, "missing")).status).toBe(404);
+  });
+
+  it("should limit how many jobs a user runs at once", async () => {
+    const carol = await server.login("4155550122");
+    const room = await createRoom(carol);
+
+    const held: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const response = await start("Please hold on", carol, room);
+      expect(response.status).toBe(202);
+      held.push((await response.json()).id);
+    }
+    expect((await start("Please hold on", carol, room)).status).toBe(429);
+
+    for (const id of held) {
+      await server.api(`/api/research/${id}/cancel`, {
+        method: "POST",
+        cookie: carol,
+      });
+    }
+    expect((await start("Why?", carol, room)).status).toBe(202);
+  });
+
+  it("should stop a chatroom's jobs when it is deleted", async () => {
+    const room = await createRoom(alice);
+    const { id } = await (await start("Please hold on", alice, room)).json();
+
+    const deleted = await server.api(`/api/chatrooms/${room}`, {
+      method: "DELETE",
+      cookie: alice,
+    });
+    expect(deleted.status).toBe(204);
+    expect((await waitForJob(id)).status).toBe("cancelled");
+  });
+});
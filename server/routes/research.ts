@@ -0,0 +1,106 @@
+import { Response, Router } from "express";
+import { z } from "zod";
+import { GenerationSettings, ResearchJobDto } from "@shared/api";
+import { HttpError, sendError, sendValidationError } from "../errors";
+import { generationSettingsSchema } from "./chat";
+import { getAuth } from "../auth/middleware";
+import type { ResearchService } from "../research/jobs";
+import type { ChatroomRepository, ResearchJobRecord } from "../storage/types";
+
+const MAX_QUESTION_LENGTH = 4000;
+
+const startResearchSchema = z.object({
+  chatroomId: z.string().min(1),
+  question: z
+    .string()
+    .trim()
+    .min(1, "question is required")
+    .max(MAX_QUESTION_LENGTH),
+  model: z.string().min(1).optional(),
+  settings: generationSettingsSchema.optional(),
+});
+
+export function toResearchJobDto(job: ResearchJobRecord): ResearchJobDto {
+  return {
+    id: job.id,
+    chatroomId: job.chatroomId,
+    question: job.question,
+    model: job.model,
+    status: job.status,
+    steps: job.steps,
+    report: job.report,
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+  };
+}
+
+export interface ResearchRouterOptions {
+  research: ResearchService;
+  chatrooms: ChatroomRepository;
+}
+
+/**
+ * Starts and follows the signed-in user's Deep Research jobs.
+ * Must be mounted behind requireAuth().
+ */
+export function createResearchRouter({
+  research,
+  chatrooms,
+}: ResearchRouterOptions) {
+  const router = Router();
+
+  // Other users' jobs are reported as missing rather than forbidden
+  const assertOwned = (res: Response, job: ResearchJobRecord | null) => {
+    if (!job || job.userId !== getAuth(res).user.id) {
+      throw new HttpError("Research job not found", 404);
+    }
+    return job;
+  };
+
+  // Answers right away; the job keeps running after the response
+  router.post("/", async (req, res) => {
+    const parsed = startResearchSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    try {
+      const userId = getAuth(res).user.id;
+      const room = await chatrooms.findById(parsed.data.chatroomId);
+      if (!room || room.userId !== userId) {
+        throw new HttpError("Chatroom not found", 404);
+      }
+
+      const job = await research.start({
+        userId,
+        chatroomId: parsed.data.chatroomId,
+        question: parsed.data.question,
+        model: parsed.data.model,
+        settings: parsed.data.settings as GenerationSettings,
+      });
+      res.status(202).json(toResearchJobDto(job));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.get("/:id", async (req, res) => {
+    try {
+      const job = assertOwned(res, await research.get(req.params.id));
+      res.status(200).json(toResearchJobDto(job));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  router.post("/:id/cancel", async (req, res) => {
+    try {
+      assertOwned(res, await research.get(req.params.id));
+      const job = await research.cancel(req.params.id);
+      res.status(200).json(toResearchJobDto(job));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return router;
+}
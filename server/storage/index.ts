@@ -0,0 +1,55 @@
+import { createJsonFileStorage } from "./json";
+import { createMemoryStorage } from "./memory";
+import { createSqliteStorage } from "./sqlite";
+import type { Storage } from "./types";
+
+export * from "./types";
+export * from "./memory";
+export * from "./json";
+export * from "./sqlite";
+export * from "./migrator";
+
+export type StorageConfig =
+  | { driver: "memory" }
+  | { driver: "json"; path: string }
+  | { driver: "sqlite"; path: string };
+
+export type StorageDriver = StorageConfig["driver"];
+
+const DEFAULT_PATHS = {
+  json: "data/db.json",
+  sqlite: "data/db.sqlite",
+};
+
+export function createStorage(config: StorageConfig): Storage {
+  switch (config.driver) {
+    case "memory":
+      return createMemoryStorage();
+    case "json":
+      return createJsonFileStorage(config.path);
+    case "sqlite":
+      return createSqliteStorage(config.path);
+  }
+}
+
+/**
+ * Reads the storage driver from STORAGE_DRIVER ("memory", "json" or
+ * "sqlite") and its file from STORAGE_PATH. Defaults to memory.
+ */
+export function storageConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): StorageConfig {
+  const driver = env.STORAGE_DRIVER ?? "memory";
+
+  switch (driver) {
+    case "memory":
+      return { driver };
+    case "json":
+    case "sqlite":
+      return { driver, path: env.STORAGE_PATH || DEFAULT_PATHS[driver] };
+    default:
+      throw new Error(
+        `Unknown STORAGE_DRIVER "${driver}"; expected memory, json or sqlite`,
+      );
+  }
+}
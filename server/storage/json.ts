@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import { createMemoryData, createMemoryStorage, MemoryData } from "./memory";
+import type { Storage } from "./types";
+
+// Record fields serialized as ISO strings that must come back as Dates
+const DATE_FIELDS = new Set([
+  "createdAt",
+  "expiresAt",
+  "consumedAt",
+  "lastSeenAt",
+  "revokedAt",
+  "lastMessageAt",
+  "updatedAt",
+  "timestamp",
+]);
+
+type Snapshot = { [K in keyof MemoryData]?: unknown[] };
+
+function load(file: string): MemoryData {
+  const data = createMemoryData();
+  if (!fs.existsSync(file)) return data;
+
+  const snapshot: Snapshot = JSON.parse(
+    fs.readFileSync(file, "utf8"),
+    (key, value) =>
+      DATE_FIELDS.has(key) && typeof value === "string"
+        ? new Date(value)
+        : value,
+  );
+
+  for (const name of Object.keys(data) as (keyof MemoryData)[]) {
+    const collection = data[name] as Map<string, { id: string }>;
+    for (const record of (snapshot[name] ?? []) as { id: string }[]) {
+      collection.set(record.id, record);
+    }
+  }
+  return data;
+}
+
+/**
+ * Single-process driver that keeps everything in memory and rewrites one
+ * JSON file after each change. Fine for demos and small self-hosted setups.
+ */
+export function createJsonFileStorage(file: string): Storage {
+  const data = load(file);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  // Writing to a temp file first means a crash never leaves half a snapshot
+  const write = () => {
+    const snapshot = Object.fromEntries(
+      Object.entries(data).map(([name, collection]) => [
+        name,
+        [...collection.values()],
+      ]),
+    );
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(snapshot));
+    fs.renameSync(tmp, file);
+  };
+
+  return createMemoryStorage(data, write);
+}
@@ -0,0 +1,197 @@
+import type {
+  ChatroomRecord,
+  GemRecord,
+  MessageRecord,
+  OtpChallengeRecord,
+  ResearchJobRecord,
+  SessionRecord,
+  Storage,
+  UserRecord,
+} from "./types";
+
+/**
+ * Raw collections behind the in-memory driver, keyed by record id.
+ * The JSON-file driver snapshots and restores exactly this shape.
+ */
+export interface MemoryData {
+  users: Map<string, UserRecord>;
+  otpChallenges: Map<string, OtpChallengeRecord>;
+  sessions: Map<string, SessionRecord>;
+  chatrooms: Map<string, ChatroomRecord>;
+  messages: Map<string, MessageRecord>;
+  gems: Map<string, GemRecord>;
+  researchJobs: Map<string, ResearchJobRecord>;
+}
+
+export function createMemoryData(): MemoryData {
+  return {
+    users: new Map(),
+    otpChallenges: new Map(),
+    sessions: new Map(),
+    chatrooms: new Map(),
+    messages: new Map(),
+    gems: new Map(),
+    researchJobs: new Map(),
+  };
+}
+
+/**
+ * Keeps everything in process memory; used by tests and as the default.
+ * `onChange` runs after every write so wrappers can persist the data.
+ */
+export function createMemoryStorage(
+  data: MemoryData = createMemoryData(),
+  onChange: () => void = () => {},
+): Storage {
+  const {
+    users,
+    otpChallenges,
+    sessions,
+    chatrooms,
+    messages,
+    gems,
+    researchJobs,
+  } = data;
+
+  const activity = (room: ChatroomRecord) =>
+    (room.lastMessageAt ?? room.createdAt).getTime();
+  const compareMessages = (a: MessageRecord, b: MessageRecord) =>
+    a.timestamp.getTime() - b.timestamp.getTime() ||
+    (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+  return {
+    users: {
+      async findById(id) {
+        return users.get(id) ?? null;
+      },
+      async findByPhone(countryCode, phone) {
+        for (const user of users.values()) {
+          if (user.countryCode === countryCode && user.phone === phone) {
+            return user;
+          }
+        }
+        return null;
+      },
+      async create(user) {
+        const existing = [...users.values()].find(
+          (other) =>
+            other.countryCode === user.countryCode &&
+            other.phone === user.phone,
+        );
+        if (existing) return existing;
+        users.set(user.id, { ...user });
+        onChange();
+        return user;
+      },
+    },
+
+    otpChallenges: {
+      async findLatest(destination) {
+        let latest: OtpChallengeRecord | null = null;
+        for (const challenge of otpChallenges.values()) {
+          if (
+            challenge.destination === destination &&
+            (!latest || challenge.createdAt > latest.createdAt)
+          ) {
+            latest = challenge;
+          }
+        }
+        return latest;
+      },
+      async save(challenge) {
+        otpChallenges.set(challenge.id, { ...challenge });
+        onChange();
+      },
+    },
+
+    sessions: {
+      async findById(id) {
+        return sessions.get(id) ?? null;
+      },
+      async listByUser(userId) {
+        return [...sessions.values()].filter(
+          (session) => session.userId === userId,
+        );
+      },
+      async save(session) {
+        sessions.set(session.id, { ...session });
+        onChange();
+      },
+    },
+
+    chatrooms: {
+      async findById(id) {
+        return chatrooms.get(id) ?? null;
+      },
+      async listByUser(userId) {
+        return [...chatrooms.values()]
+          .filter((room) => room.userId === userId)
+          .sort((a, b) => activity(b) - activity(a));
+      },
+      async save(chatroom) {
+        chatrooms.set(chatroom.id, { ...chatroom });
+        onChange();
+      },
+      async delete(id) {
+        chatrooms.delete(id);
+        for (const message of [...messages.values()]) {
+          if (message.chatroomId === id) messages.delete(message.id);
+        }
+        onChange();
+      },
+    },
+
+    messages: {
+      async findById(id) {
+        return messages.get(id) ?? null;
+      },
+      async listByChatroom(chatroomId, { before, limit } = {}) {
+        const page = [...messages.values()]
+          .filter(
+            (message) =>
+              message.chatroomId === chatroomId &&
+              (!before || compareMessages(message, before) < 0),
+          )
+          .sort(compareMessages);
+        return limit === undefined ? page : page.slice(-limit);
+      },
+      async save(message) {
+        messages.set(message.id, { ...message });
+        onChange();
+      },
+    },
+
+    gems: {
+      async findById(id) {
+        return gems.get(id) ?? null;
+      },
+      async listByUser(userId) {
+        return [...gems.values()]
+          .filter((gem) => gem.userId === userId)
+          .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+      },
+      async save(gem) {
+        gems.set(gem.id, { ...gem });
+        onChange();
+      },
+      async delete(id) {
+        gems.delete(id);
+        onChange();
+      },
+    },
+
+    researchJobs: {
+      async findById(id) {
+        return researchJobs.get(id) ?? null;
+      },
+      async save(job) {
+        researchJobs.set(job.id, { ...job });
+        onChange();
+      },
+    },
+
+    async ready() {},
+
+    async close() {},
+  };
+}
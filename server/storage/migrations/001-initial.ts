@@ -0,0 +1,57 @@
+import type { Migration } from "../migrator";
+
+// IF NOT EXISTS adopts databases created before migrations were tracked
+export const initial: Migration = {
+  version: 1,
+  name: "initial",
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      phone TEXT NOT NULL,
+      country_code TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      UNIQUE (country_code, phone)
+    );
+    CREATE TABLE IF NOT EXISTS otp_challenges (
+      id TEXT PRIMARY KEY,
+      destination TEXT NOT NULL,
+      code_hash TEXT NOT NULL,
+      salt TEXT NOT NULL,
+      attempts INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      consumed_at INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS otp_challenges_destination
+      ON otp_challenges (destination, created_at);
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      refresh_token_hash TEXT NOT NULL,
+      user_agent TEXT,
+      created_at INTEGER NOT NULL,
+      last_seen_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      revoked_at INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS sessions_user ON sessions (user_id);
+    CREATE TABLE IF NOT EXISTS chatrooms (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      last_message_at INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS chatrooms_user ON chatrooms (user_id);
+    CREATE TABLE IF NOT EXISTS messages (
+      id TEXT PRIMARY KEY,
+      chatroom_id TEXT NOT NULL,
+      sender TEXT NOT NULL,
+      content TEXT NOT NULL,
+      image_url TEXT,
+      timestamp INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS messages_chatroom
+      ON messages (chatroom_id, timestamp);
+  `,
+};
@@ -0,0 +1,20 @@
+import type { Migration } from "../migrator";
+
+// Existing history is a single branch, so each message follows the one
+// before it in its chatroom
+export const messageParents: Migration = {
+  version: 2,
+  name: "message parents",
+  up: `
+    ALTER TABLE messages ADD COLUMN parent_id TEXT;
+    UPDATE messages SET parent_id = (
+      SELECT previous.id FROM messages AS previous
+        WHERE previous.chatroom_id = messages.chatroom_id
+          AND (previous.timestamp < messages.timestamp
+            OR (previous.timestamp = messages.timestamp
+              AND previous.id < messages.id))
+        ORDER BY previous.timestamp DESC, previous.id DESC
+        LIMIT 1
+    );
+  `,
+};
@@ -0,0 +1,9 @@
+import type { Migration } from "../migrator";
+
+export const messageStatus: Migration = {
+  version: 3,
+  name: "message status",
+  up: `
+    ALTER TABLE messages ADD COLUMN status TEXT;
+  `,
+};
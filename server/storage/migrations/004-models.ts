@@ -0,0 +1,10 @@
+import type { Migration } from "../migrator";
+
+export const models: Migration = {
+  version: 4,
+  name: "models",
+  up: `
+    ALTER TABLE chatrooms ADD COLUMN model TEXT;
+    ALTER TABLE messages ADD COLUMN model TEXT;
+  `,
+};
@@ -0,0 +1,10 @@
+import type { Migration } from "../migrator";
+
+// Generation settings are stored as JSON
+export const chatroomSettings: Migration = {
+  version: 5,
+  name: "chatroom settings",
+  up: `
+    ALTER TABLE chatrooms ADD COLUMN settings TEXT;
+  `,
+};
@@ -0,0 +1,22 @@
+import type { Migration } from "../migrator";
+
+// Starter prompts are stored as a JSON array
+export const gems: Migration = {
+  version: 6,
+  name: "gems",
+  up: `
+    CREATE TABLE gems (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      icon TEXT NOT NULL,
+      instructions TEXT NOT NULL,
+      model TEXT,
+      starter_prompts TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE INDEX gems_user ON gems (user_id);
+    ALTER TABLE chatrooms ADD COLUMN gem_id TEXT;
+  `,
+};
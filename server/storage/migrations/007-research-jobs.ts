@@ -0,0 +1,24 @@
+import type { Migration } from "../migrator";
+
+// A job's steps are stored as one JSON array, rewritten as it progresses
+export const researchJobs: Migration = {
+  version: 7,
+  name: "research jobs",
+  up: `
+    CREATE TABLE research_jobs (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      chatroom_id TEXT NOT NULL,
+      question TEXT NOT NULL,
+      model TEXT NOT NULL,
+      settings TEXT,
+      status TEXT NOT NULL,
+      steps TEXT NOT NULL,
+      report TEXT,
+      error TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    ALTER TABLE messages ADD COLUMN research_job_id TEXT;
+  `,
+};
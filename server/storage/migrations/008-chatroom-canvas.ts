@@ -0,0 +1,10 @@
+import type { Migration } from "../migrator";
+
+// The canvas and its version history are stored as JSON
+export const chatroomCanvas: Migration = {
+  version: 8,
+  name: "chatroom canvas",
+  up: `
+    ALTER TABLE chatrooms ADD COLUMN canvas TEXT;
+  `,
+};
@@ -0,0 +1,25 @@
+import type { Migration } from "../migrator";
+import { initial } from "./001-initial";
+import { messageParents } from "./002-message-parents";
+import { messageStatus } from "./003-message-status";
+import { models } from "./004-models";
+import { chatroomSettings } from "./005-chatroom-settings";
+import { gems } from "./006-gems";
+import { researchJobs } from "./007-research-jobs";
+import { chatroomCanvas } from "./008-chatroom-canvas";
+
+/**
+ * Every schema change, oldest first. Append new migrations with the next
+ * version number; never edit one that has shipped, since databases record
+ * its checksum and refuse to boot when it changes.
+ */
+export const migrations: Migration[] = [
+  initial,
+  messageParents,
+  messageStatus,
+  models,
+  chatroomSettings,
+  gems,
+  researchJobs,
+  chatroomCanvas,
+];
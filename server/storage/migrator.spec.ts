@@ -0,0 +1,84 @@
+import initSqlJs, { Database } from "sql.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  applyMigrations,
+  assertMigrated,
+  getMigrationStatus,
+  MigrationError,
+  type Migration,
+} from "./migrator";
+
+const first: Migration = {
+  version: 1,
+  name: "create notes",
+  up: "CREATE TABLE notes (id TEXT PRIMARY KEY)",
+};
+const second: Migration = {
+  version: 2,
+  name: "add note body",
+  up: "ALTER TABLE notes ADD COLUMN body TEXT",
+};
+
+describe("migrator", () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    const SQL = await initSqlJs();
+    db = new SQL.Database();
+  });
+
+  it("should apply pending migrations in order, once", () => {
+    expect(applyMigrations(db, [first]).map((m) => m.version)).toEqual([1]);
+    expect(applyMigrations(db, [first, second]).map((m) => m.version)).toEqual([
+      2,
+    ]);
+    expect(applyMigrations(db, [first, second])).toEqual([]);
+
+    db.run("INSERT INTO notes (id, body) VALUES ('n1', 'hello')");
+    expect(() => assertMigrated(db, [first, second])).not.toThrow();
+  });
+
+  it("should refuse to boot with pending migrations", () => {
+    applyMigrations(db, [first]);
+
+    expect(() => assertMigrated(db, [first, second])).toThrow(
+      /1 pending migration/,
+    );
+  });
+
+  it("should detect migrations edited after being applied", () => {
+    applyMigrations(db, [first]);
+    const edited = {
+      ...first,
+      up: `${first.up}; CREATE INDEX x ON notes (id)`,
+    };
+
+    expect(getMigrationStatus(db, [edited]).problems).toEqual([
+      "Migration 1 (create notes) was modified after it was applied",
+    ]);
+    expect(() => applyMigrations(db, [edited])).toThrow(MigrationError);
+  });
+
+  it("should detect databases migrated by a newer build", () => {
+    applyMigrations(db, [first, second]);
+
+    expect(() => assertMigrated(db, [first])).toThrow(/unknown to this build/);
+  });
+
+  it("should roll back a failing migration", () => {
+    const broken: Migration = {
+      version: 2,
+      name: "broken",
+      up: "CREATE TABLE tags (id TEXT); INSERT INTO missing VALUES (1)",
+    };
+    applyMigrations(db, [first]);
+
+    expect(() => applyMigrations(db, [first, broken])).toThrow(
+      /Migration 2 \(broken\) failed/,
+    );
+    expect(
+      db.exec("SELECT name FROM sqlite_master WHERE name = 'tags'"),
+    ).toEqual([]);
+    expect(getMigrationStatus(db, [first, broken]).pending).toEqual([broken]);
+  });
+});
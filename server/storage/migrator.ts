@@ -0,0 +1,141 @@
+import crypto from "crypto";
+import type { Database } from "sql.js";
+import { HttpError } from "../errors";
+
+export interface Migration {
+  /** Position in the chain, starting at 1 with no gaps */
+  version: number;
+  name: string;
+  /** SQL run in one transaction when the migration is applied */
+  up: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  /** Reasons the database cannot be used with this build at all */
+  problems: string[];
+}
+
+/**
+ * Raised when the database schema does not match this build. Requests that
+ * hit such a database fail with 503 rather than touching the data.
+ */
+export class MigrationError extends HttpError {
+  constructor(message: string, status = 503) {
+    super(message, status);
+    this.name = "MigrationError";
+  }
+}
+
+export function checksum(migration: Migration) {
+  return crypto.createHash("sha256").update(migration.up.trim()).digest("hex");
+}
+
+function ensureMigrationsTable(db: Database) {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+}
+
+function listApplied(db: Database): AppliedMigration[] {
+  const [result] = db.exec(
+    "SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version",
+  );
+  return (result?.values ?? []).map(([version, name, sum, appliedAt]) => ({
+    version: version as number,
+    name: name as string,
+    checksum: sum as string,
+    appliedAt: new Date(appliedAt as number),
+  }));
+}
+
+export function getMigrationStatus(
+  db: Database,
+  migrations: Migration[],
+): MigrationStatus {
+  ensureMigrationsTable(db);
+  const applied = listApplied(db);
+  const known = new Map(migrations.map((m) => [m.version, m]));
+  const problems: string[] = [];
+
+  for (const record of applied) {
+    const migration = known.get(record.version);
+    if (!migration) {
+      problems.push(
+        `Migration ${record.version} (${record.name}) is applied but unknown to this build; deploy a newer server`,
+      );
+    } else if (checksum(migration) !== record.checksum) {
+      problems.push(
+        `Migration ${record.version} (${record.name}) was modified after it was applied`,
+      );
+    }
+  }
+
+  const appliedVersions = new Set(applied.map((record) => record.version));
+  const pending = migrations.filter((m) => !appliedVersions.has(m.version));
+  const latest = applied[applied.length - 1]?.version ?? 0;
+  if (pending.some((m) => m.version < latest)) {
+    problems.push(
+      `Migrations ${pending.map((m) => m.version).join(", ")} are missing below version ${latest}`,
+    );
+  }
+
+  return { applied, pending, problems };
+}
+
+/**
+ * Applies every pending migration in order, each in its own transaction.
+ * Returns the migrations that ran.
+ */
+export function applyMigrations(
+  db: Database,
+  migrations: Migration[],
+): Migration[] {
+  const { pending, problems } = getMigrationStatus(db, migrations);
+  if (problems.length > 0) throw new MigrationError(problems.join("; "));
+
+  for (const migration of pending) {
+    db.run("BEGIN");
+    try {
+      db.run(migration.up);
+      db.run(
+        "INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)",
+        [migration.version, migration.name, checksum(migration), Date.now()],
+      );
+      db.run("COMMIT");
+    } catch (error) {
+      db.run("ROLLBACK");
+      throw new MigrationError(
+        `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+  return pending;
+}
+
+/**
+ * Boot-time check: throws unless the database is exactly at the schema this
+ * build expects
+ */
+export function assertMigrated(db: Database, migrations: Migration[]) {
+  const { pending, problems } = getMigrationStatus(db, migrations);
+  if (problems.length > 0) throw new MigrationError(problems.join("; "));
+  if (pending.length > 0) {
+    throw new MigrationError(
+      `Database schema is out of date (${pending.length} pending migration${pending.length === 1 ? "" : "s"}); run \`npm run migrate\``,
+    );
+  }
+}
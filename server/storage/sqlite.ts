@@ -0,0 +1,514 @@
+import fs from "fs";
+import path from "path";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+import {
+  applyMigrations,
+  assertMigrated,
+  getMigrationStatus,
+} from "./migrator";
+import { migrations } from "./migrations";
+import type {
+  ChatroomRecord,
+  GemRecord,
+  MessageRecord,
+  OtpChallengeRecord,
+  ResearchJobRecord,
+  SessionRecord,
+  Storage,
+  UserRecord,
+} from "./types";
+
+type Row = Record<string, SqlValue>;
+
+// Changes made within this window are written to disk together
+const FLUSH_DELAY_MS = 200;
+
+// Dates are stored as epoch milliseconds
+const toMs = (date?: Date) => (date ? date.getTime() : null);
+const toDate = (value: SqlValue) =>
+  value === null ? undefined : new Date(value as number);
+const toOptional = (value: SqlValue) =>
+  value === null ? undefined : (value as string);
+
+function toUser(row: Row): UserRecord {
+  return {
+    id: row.id as string,
+    phone: row.phone as string,
+    countryCode: row.country_code as string,
+    createdAt: toDate(row.created_at),
+  };
+}
+
+function toOtpChallenge(row: Row): OtpChallengeRecord {
+  return {
+    id: row.id as string,
+    destination: row.destination as string,
+    codeHash: row.code_hash as string,
+    salt: row.salt as string,
+    attempts: row.attempts as number,
+    createdAt: toDate(row.created_at),
+    expiresAt: toDate(row.expires_at),
+    consumedAt: toDate(row.consumed_at),
+  };
+}
+
+function toSession(row: Row): SessionRecord {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    refreshTokenHash: row.refresh_token_hash as string,
+    userAgent: toOptional(row.user_agent),
+    createdAt: toDate(row.created_at),
+    lastSeenAt: toDate(row.last_seen_at),
+    expiresAt: toDate(row.expires_at),
+    revokedAt: toDate(row.revoked_at),
+  };
+}
+
+function toChatroom(row: Row): ChatroomRecord {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    title: row.title as string,
+    model: toOptional(row.model),
+    settings:
+      row.settings === null ? undefined : JSON.parse(row.settings as string),
+    gemId: toOptional(row.gem_id),
+    canvas: row.canvas === null ? undefined : JSON.parse(row.canvas as string),
+    createdAt: toDate(row.created_at),
+    lastMessageAt: toDate(row.last_message_at),
+  };
+}
+
+function toMessage(row: Row): MessageRecord {
+  return {
+    id: row.id as string,
+    chatroomId: row.chatroom_id as string,
+    sender: row.sender as MessageRecord["sender"],
+    content: row.content as string,
+    imageUrl: toOptional(row.image_url),
+    // Rows from before branching were given a parent by migration 2
+    parentId: (row.parent_id as string | null) ?? null,
+    status: toOptional(row.status) as MessageRecord["status"],
+    model: toOptional(row.model),
+    researchJobId: toOptional(row.research_job_id),
+    timestamp: toDate(row.timestamp),
+  };
+}
+
+function toGem(row: Row): GemRecord {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    name: row.name as string,
+    icon: row.icon as string,
+    instructions: row.instructions as string,
+    model: toOptional(row.model),
+    starterPrompts: JSON.parse(row.starter_prompts as string),
+    createdAt: toDate(row.created_at),
+    updatedAt: toDate(row.updated_at),
+  };
+}
+
+function toResearchJob(row: Row): ResearchJobRecord {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    chatroomId: row.chatroom_id as string,
+    question: row.question as string,
+    model: row.model as string,
+    settings:
+      row.settings === null ? undefined : JSON.parse(row.settings as string),
+    status: row.status as ResearchJobRecord["status"],
+    steps: JSON.parse(row.steps as string),
+    report: toOptional(row.report),
+    error: toOptional(row.error),
+    createdAt: toDate(row.created_at),
+    updatedAt: toDate(row.updated_at),
+  };
+}
+
+function save(db: Database, file: string) {
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, db.export());
+  fs.renameSync(tmp, file);
+}
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Error && error.message.includes("UNIQUE constraint failed");
+
+/**
+ * Writes the database back to `file` in the background, at most once per
+ * FLUSH_DELAY_MS however many changes were made; flush() writes pending
+ * changes right away
+ */
+function createWriter(file: string) {
+  let timer: NodeJS.Timeout | null = null;
+  let dirty: Database | null = null;
+  let writing = Promise.resolve();
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const db = dirty;
+    dirty = null;
+    if (db) {
+      // Exporting is synchronous, so it runs once per batch
+      const data = db.export();
+      const tmp = `${file}.tmp`;
+      writing = writing
+        .then(async () => {
+          await fs.promises.writeFile(tmp, data);
+          await fs.promises.rename(tmp, file);
+        })
+        .catch((error) =>
+          console.error(`❌ Could not write ${file}: ${error.message}`),
+        );
+    }
+    return writing;
+  };
+
+  return {
+    schedule(db: Database) {
+      dirty = db;
+      timer ??= setTimeout(flush, FLUSH_DELAY_MS);
+    },
+    flush,
+  };
+}
+
+async function load(file: string) {
+  const SQL = await initSqlJs();
+  return fs.existsSync(file)
+    ? new SQL.Database(fs.readFileSync(file))
+    : new SQL.Database();
+}
+
+async function open(file: string): Promise<Database> {
+  const isNew = !fs.existsSync(file);
+  const db = await load(file);
+
+  // A brand-new database has nothing to protect, so it starts migrated;
+  // existing ones are only upgraded by the explicit migrate command
+  if (isNew) {
+    applyMigrations(db, migrations);
+    save(db, file);
+  } else {
+    assertMigrated(db, migrations);
+  }
+  return db;
+}
+
+/**
+ * Applies pending migrations to the database at `file`, creating it if
+ * needed. Used by the `migrate` command.
+ */
+export async function migrateSqliteFile(file: string) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = await load(file);
+  try {
+    const applied = applyMigrations(db, migrations);
+    save(db, file);
+    return applied;
+  } finally {
+    db.close();
+  }
+}
+
+export async function getSqliteMigrationStatus(file: string) {
+  const db = await load(file);
+  try {
+    return getMigrationStatus(db, migrations);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * SQLite database file, run through sql.js (WebAssembly) so no native
+ * build is needed. The engine loads in the background; queries wait for it.
+ * Queries run in memory; changes are written back to `file` in batches,
+ * off the request path, and on close(). A crash loses at most the last
+ * FLUSH_DELAY_MS of changes.
+ * Refuses to serve an existing database whose schema does not match.
+ */
+export function createSqliteStorage(file: string): Storage {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const ready = open(file);
+  const writer = createWriter(file);
+  // Keeps failed startups from surfacing as unhandled rejections; every
+  // query awaits `ready` and reports the error itself
+  ready.catch(() => {});
+
+  const all = async (sql: string, params: SqlValue[] = []) => {
+    const db = await ready;
+    const statement = db.prepare(sql, params);
+    const rows: Row[] = [];
+    try {
+      while (statement.step()) rows.push(statement.getAsObject());
+    } finally {
+      statement.free();
+    }
+    return rows;
+  };
+
+  const get = async (sql: string, params: SqlValue[] = []) =>
+    (await all(sql, params))[0] ?? null;
+
+  const run = async (sql: string, params: SqlValue[] = []) => {
+    const db = await ready;
+    db.run(sql, params);
+    writer.schedule(db);
+  };
+
+  return {
+    users: {
+      async findById(id) {
+        const row = await get("SELECT * FROM users WHERE id = ?", [id]);
+        return row && toUser(row);
+      },
+      async findByPhone(countryCode, phone) {
+        const row = await get(
+          "SELECT * FROM users WHERE country_code = ? AND phone = ?",
+          [countryCode, phone],
+        );
+        return row && toUser(row);
+      },
+      async create(user) {
+        try {
+          await run(
+            "INSERT INTO users (id, phone, country_code, created_at) VALUES (?, ?, ?, ?)",
+            [user.id, user.phone, user.countryCode, toMs(user.createdAt)],
+          );
+          return user;
+        } catch (error) {
+          if (!isUniqueViolation(error)) throw error;
+          // Another request signed the same phone up first
+          const row = await get(
+            "SELECT * FROM users WHERE country_code = ? AND phone = ?",
+            [user.countryCode, user.phone],
+          );
+          if (!row) throw error;
+          return toUser(row);
+        }
+      },
+    },
+
+    otpChallenges: {
+      async findLatest(destination) {
+        const row = await get(
+          "SELECT * FROM otp_challenges WHERE destination = ? ORDER BY created_at DESC LIMIT 1",
+          [destination],
+        );
+        return row && toOtpChallenge(row);
+      },
+      async save(challenge) {
+        await run(
+          `INSERT OR REPLACE INTO otp_challenges
+            (id, destination, code_hash, salt, attempts, created_at, expires_at, consumed_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            challenge.id,
+            challenge.destination,
+            challenge.codeHash,
+            challenge.salt,
+            challenge.attempts,
+            toMs(challenge.createdAt),
+            toMs(challenge.expiresAt),
+            toMs(challenge.consumedAt),
+          ],
+        );
+      },
+    },
+
+    sessions: {
+      async findById(id) {
+        const row = await get("SELECT * FROM sessions WHERE id = ?", [id]);
+        return row && toSession(row);
+      },
+      async listByUser(userId) {
+        const rows = await all("SELECT * FROM sessions WHERE user_id = ?", [
+          userId,
+        ]);
+        return rows.map(toSession);
+      },
+      async save(session) {
+        await run(
+          `INSERT OR REPLACE INTO sessions
+            (id, user_id, refresh_token_hash, user_agent, created_at, last_seen_at, expires_at, revoked_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            session.id,
+            session.userId,
+            session.refreshTokenHash,
+            session.userAgent ?? null,
+            toMs(session.createdAt),
+            toMs(session.lastSeenAt),
+            toMs(session.expiresAt),
+            toMs(session.revokedAt),
+          ],
+        );
+      },
+    },
+
+    chatrooms: {
+      async findById(id) {
+        const row = await get("SELECT * FROM chatrooms WHERE id = ?", [id]);
+        return row && toChatroom(row);
+      },
+      async listByUser(userId) {
+        const rows = await all(
+          "SELECT * FROM chatrooms WHERE user_id = ? ORDER BY COALESCE(last_message_at, created_at) DESC",
+          [userId],
+        );
+        return rows.map(toChatroom);
+      },
+      async save(chatroom) {
+        await run(
+          `INSERT OR REPLACE INTO chatrooms
+            (id, user_id, title, model, settings, gem_id, canvas, created_at,
+              last_message_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            chatroom.id,
+            chatroom.userId,
+            chatroom.title,
+            chatroom.model ?? null,
+            chatroom.settings ? JSON.stringify(chatroom.settings) : null,
+            chatroom.gemId ?? null,
+            chatroom.canvas ? JSON.stringify(chatroom.canvas) : null,
+            toMs(chatroom.createdAt),
+            toMs(chatroom.lastMessageAt),
+          ],
+        );
+      },
+      async delete(id) {
+        const db = await ready;
+        db.run("DELETE FROM messages WHERE chatroom_id = ?", [id]);
+        db.run("DELETE FROM chatrooms WHERE id = ?", [id]);
+        writer.schedule(db);
+      },
+    },
+
+    messages: {
+      async findById(id) {
+        const row = await get("SELECT * FROM messages WHERE id = ?", [id]);
+        return row && toMessage(row);
+      },
+      async listByChatroom(chatroomId, { before, limit } = {}) {
+        // Walks back from the newest message, then flips to oldest first
+        const rows = await all(
+          `SELECT * FROM messages
+            WHERE chatroom_id = ?
+              AND (? IS NULL OR timestamp < ? OR (timestamp = ? AND id < ?))
+            ORDER BY timestamp DESC, id DESC
+            LIMIT ?`,
+          [
+            chatroomId,
+            before?.id ?? null,
+            toMs(before?.timestamp),
+            toMs(before?.timestamp),
+            before?.id ?? null,
+            limit ?? -1,
+          ],
+        );
+        return rows.reverse().map(toMessage);
+      },
+      async save(message) {
+        await run(
+          `INSERT OR REPLACE INTO messages
+            (id, chatroom_id, sender, content, image_url, parent_id, status,
+              model, research_job_id, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            message.id,
+            message.chatroomId,
+            message.sender,
+            message.content,
+            message.imageUrl ?? null,
+            message.parentId ?? null,
+            message.status ?? null,
+            message.model ?? null,
+            message.researchJobId ?? null,
+            toMs(message.timestamp),
+          ],
+        );
+      },
+    },
+
+    gems: {
+      async findById(id) {
+        const row = await get("SELECT * FROM gems WHERE id = ?", [id]);
+        return row && toGem(row);
+      },
+      async listByUser(userId) {
+        const rows = await all(
+          "SELECT * FROM gems WHERE user_id = ? ORDER BY updated_at DESC",
+          [userId],
+        );
+        return rows.map(toGem);
+      },
+      async save(gem) {
+        await run(
+          `INSERT OR REPLACE INTO gems
+            (id, user_id, name, icon, instructions, model, starter_prompts,
+              created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            gem.id,
+            gem.userId,
+            gem.name,
+            gem.icon,
+            gem.instructions,
+            gem.model ?? null,
+            JSON.stringify(gem.starterPrompts),
+            toMs(gem.createdAt),
+            toMs(gem.updatedAt),
+          ],
+        );
+      },
+      async delete(id) {
+        await run("DELETE FROM gems WHERE id = ?", [id]);
+      },
+    },
+
+    researchJobs: {
+      async findById(id) {
+        const row = await get("SELECT * FROM research_jobs WHERE id = ?", [id]);
+        return row && toResearchJob(row);
+      },
+      async save(job) {
+        await run(
+          `INSERT OR REPLACE INTO research_jobs
+            (id, user_id, chatroom_id, question, model, settings, status,
+              steps, report, error, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            job.id,
+            job.userId,
+            job.chatroomId,
+            job.question,
+            job.model,
+            job.settings ? JSON.stringify(job.settings) : null,
+            job.status,
+            JSON.stringify(job.steps),
+            job.report ?? null,
+            job.error ?? null,
+            toMs(job.createdAt),
+            toMs(job.updatedAt),
+          ],
+        );
+      },
+    },
+
+    async ready() {
+      await ready;
+    },
+
+    async close() {
+      const db = await ready.catch(() => null);
+      await writer.flush();
+      db?.close();
+    },
+  };
+}
@@ -0,0 +1,272 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createStorage, type Storage, type StorageConfig } from "./index";
+
+const drivers: StorageConfig["driver"][] = ["memory", "json", "sqlite"];
+
+describe.each(drivers)("%s storage", (driver) => {
+  let dir: string;
+  let storage: Storage;
+
+  const open = (): Storage =>
+    driver === "memory"
+      ? createStorage({ driver })
+      : createStorage({ driver, path: path.join(dir, `db.${driver}`) });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-"));
+    storage = open();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const user = {
+    id: "u1",
+    phone: "4155550123",
+    countryCode: "+1",
+    createdAt: new Date("2025-01-01T00:00:00Z"),
+  };
+
+  it("should find users by id and phone", async () => {
+    await storage.users.create(user);
+
+    expect(await storage.users.findById("u1")).toEqual(user);
+    expect(await storage.users.findByPhone("+1", "4155550123")).toEqual(user);
+    expect(await storage.users.findByPhone("+44", "4155550123")).toBeNull();
+  });
+
+  it("should keep one user per phone when signing up concurrently", async () => {
+    const [first, second] = await Promise.all([
+      storage.users.create(user),
+      storage.users.create({ ...user, id: "u2" }),
+    ]);
+
+    expect(first).toEqual(user);
+    expect(second).toEqual(user);
+    expect(await storage.users.findById("u2")).toBeNull();
+  });
+
+  it("should return the latest OTP challenge and apply updates", async () => {
+    const challenge = {
+      id: "c1",
+      destination: "+14155550123",
+      codeHash: "hash",
+      salt: "salt",
+      attempts: 0,
+      createdAt: new Date("2025-01-01T00:00:00Z"),
+      expiresAt: new Date("2025-01-01T00:05:00Z"),
+    };
+    await storage.otpChallenges.save(challenge);
+    await storage.otpChallenges.save({
+      ...challenge,
+      id: "c2",
+      createdAt: new Date("2025-01-01T00:01:00Z"),
+    });
+    await storage.otpChallenges.save({ ...challenge, attempts: 3 });
+
+    const latest = await storage.otpChallenges.findLatest("+14155550123");
+    expect(latest?.id).toBe("c2");
+    expect(latest?.consumedAt).toBeUndefined();
+  });
+
+  it("should list chatrooms by activity and cascade deletes", async () => {
+    const room = (id: string, createdAt: string, lastMessageAt?: string) => ({
+      id,
+      userId: "u1",
+      title: id,
+      createdAt: new Date(createdAt),
+      lastMessageAt: lastMessageAt ? new Date(lastMessageAt) : undefined,
+    });
+    await storage.chatrooms.save({
+      ...room("old", "2025-01-01T00:00:00Z"),
+      model: "mock-echo",
+      settings: { temperature: 0.5, stopSequences: ["END"] },
+      canvas: {
+        title: "Notes",
+        versions: [
+          {
+            id: "v1",
+            content: "Draft",
+            note: "Drafted by Gemini",
+            savedAt: "2025-01-01T00:00:00.000Z",
+          },
+        ],
+      },
+    });
+    await storage.chatrooms.save(
+      room("active", "2024-12-01T00:00:00Z", "2025-01-02T00:00:00Z"),
+    );
+    await storage.chatrooms.save({
+      ...room("other", "2025-01-03T00:00:00Z"),
+      userId: "u2",
+    });
+
+    const rooms = await storage.chatrooms.listByUser("u1");
+    expect(rooms.map((r) => r.id)).toEqual(["active", "old"]);
+    expect(rooms.map((r) => r.model)).toEqual([undefined, "mock-echo"]);
+    expect(rooms[1].settings).toEqual({
+      temperature: 0.5,
+      stopSequences: ["END"],
+    });
+    // Saved as written, including the version timestamps
+    expect(rooms[1].canvas?.versions[0].savedAt).toBe(
+      "2025-01-01T00:00:00.000Z",
+    );
+    expect(rooms[0].canvas).toBeUndefined();
+
+    await storage.messages.save({
+      id: "m2",
+      chatroomId: "old",
+      sender: "ai",
+      content: "Hi there",
+      parentId: "m1",
+      status: "stopped",
+      model: "mock-echo",
+      researchJobId: "r1",
+      timestamp: new Date("2025-01-01T00:00:02Z"),
+    });
+    await storage.messages.save({
+      id: "m1",
+      chatroomId: "old",
+      sender: "user",
+      content: "Hello",
+      imageUrl: "data:image/png;base64,AAAA",
+      parentId: null,
+      timestamp: new Date("2025-01-01T00:00:01Z"),
+    });
+    const messages = await storage.messages.listByChatroom("old");
+    expect(messages.map((m) => m.id)).toEqual(["m1", "m2"]);
+    expect(messages[1].imageUrl).toBeUndefined();
+    expect(messages.map((m) => m.parentId)).toEqual([null, "m1"]);
+    expect(messages.map((m) => m.status)).toEqual([undefined, "stopped"]);
+    expect(messages.map((m) => m.model)).toEqual([undefined, "mock-echo"]);
+    expect(messages.map((m) => m.researchJobId)).toEqual([undefined, "r1"]);
+
+    const older = await storage.messages.listByChatroom("old", {
+      before: messages[1],
+      limit: 5,
+    });
+    expect(older.map((m) => m.id)).toEqual(["m1"]);
+    const newest = await storage.messages.listByChatroom("old", { limit: 1 });
+    expect(newest.map((m) => m.id)).toEqual(["m2"]);
+
+    await storage.chatrooms.delete("old");
+    expect(await storage.chatrooms.findById("old")).toBeNull();
+    expect(await storage.messages.findById("m1")).toBeNull();
+  });
+
+  it("should list Gems by last update and delete them", async () => {
+    const gem = {
+      id: "g1",
+      userId: "u1",
+      name: "Tutor",
+      icon: "🧮",
+      instructions: "Explain step by step.",
+      starterPrompts: ["Explain derivatives"],
+      createdAt: new Date("2025-01-01T00:00:00Z"),
+      updatedAt: new Date("2025-01-01T00:00:00Z"),
+    };
+    await storage.gems.save(gem);
+    await storage.gems.save({
+      ...gem,
+      id: "g2",
+      model: "mock-echo",
+      starterPrompts: [],
+      updatedAt: new Date("2025-01-02T00:00:00Z"),
+    });
+    await storage.gems.save({ ...gem, id: "g3", userId: "u2" });
+
+    const gems = await storage.gems.listByUser("u1");
+    expect(gems.map((g) => g.id)).toEqual(["g2", "g1"]);
+    expect(gems[1]).toEqual(gem);
+    expect(gems[0].model).toBe("mock-echo");
+
+    await storage.gems.delete("g1");
+    expect(await storage.gems.findById("g1")).toBeNull();
+  });
+
+  it("should save research jobs with their steps", async () => {
+    const job = {
+      id: "r1",
+      userId: "u1",
+      chatroomId: "c1",
+      question: "Why is the sky blue?",
+      model: "mock-echo",
+      status: "running" as const,
+      steps: [
+        {
+          id: "s1",
+          kind: "plan" as const,
+          title: "Plan",
+          status: "running" as const,
+        },
+      ],
+      createdAt: new Date("2025-01-01T00:00:00Z"),
+      updatedAt: new Date("2025-01-01T00:00:00Z"),
+    };
+    await storage.researchJobs.save(job);
+    expect(await storage.researchJobs.findById("r1")).toEqual(job);
+
+    const completed = {
+      ...job,
+      status: "completed" as const,
+      settings: { temperature: 0.2 },
+      steps: [
+        {
+          ...job.steps[0],
+          status: "done" as const,
+          output: "- Scattering",
+          sources: [{ title: "Rayleigh", url: "https://example.com" }],
+        },
+      ],
+      report: "Rayleigh scattering [1].",
+      updatedAt: new Date("2025-01-01T00:01:00Z"),
+    };
+    await storage.researchJobs.save(completed);
+    expect(await storage.researchJobs.findById("r1")).toEqual(completed);
+    expect(await storage.researchJobs.findById("missing")).toBeNull();
+  });
+
+  it.skipIf(driver === "memory")(
+    "should persist across reopening",
+    async () => {
+      await storage.users.create(user);
+      await storage.sessions.save({
+        id: "s1",
+        userId: "u1",
+        refreshTokenHash: "hash",
+        createdAt: new Date("2025-01-01T00:00:00Z"),
+        lastSeenAt: new Date("2025-01-01T00:00:00Z"),
+        expiresAt: new Date("2025-02-01T00:00:00Z"),
+      });
+      await storage.close();
+
+      storage = open();
+      expect(await storage.users.findById("u1")).toEqual(user);
+      const sessions = await storage.sessions.listByUser("u1");
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].expiresAt).toEqual(new Date("2025-02-01T00:00:00Z"));
+      expect(sessions[0].revokedAt).toBeUndefined();
+    },
+  );
+
+  it.skipIf(driver === "memory")(
+    "should write changes to the file without being closed",
+    async () => {
+      await storage.users.create(user);
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      const reader = open();
+      try {
+        expect(await reader.users.findById("u1")).toEqual(user);
+      } finally {
+        await reader.close();
+      }
+    },
+  );
+});
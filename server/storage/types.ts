@@ -0,0 +1,177 @@
+import type {
+  CanvasDto,
+  GenerationSettings,
+  ResearchJobDto,
+  ResearchStepDto,
+} from "@shared/api";
+
+export interface UserRecord {
+  id: string;
+  phone: string;
+  countryCode: string;
+  createdAt: Date;
+}
+
+export interface OtpChallengeRecord {
+  id: string;
+  /** Full number the code was sent to, e.g. "+14155550123" */
+  destination: string;
+  codeHash: string;
+  salt: string;
+  attempts: number;
+  createdAt: Date;
+  expiresAt: Date;
+  consumedAt?: Date;
+}
+
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  /** Hash of the only refresh token currently valid for this session */
+  refreshTokenHash: string;
+  userAgent?: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+}
+
+export interface ChatroomRecord {
+  id: string;
+  userId: string;
+  title: string;
+  /** Model picked for the chatroom; the default model when unset */
+  model?: string;
+  settings?: GenerationSettings;
+  /** Gem the chatroom was started with, if any */
+  gemId?: string;
+  canvas?: CanvasDto;
+  createdAt: Date;
+  lastMessageAt?: Date;
+}
+
+export type MessageStatus = "pending" | "sent" | "failed" | "stopped";
+
+export interface MessageRecord {
+  id: string;
+  chatroomId: string;
+  sender: "user" | "ai";
+  content: string;
+  imageUrl?: string;
+  /**
+   * The message this one follows in its branch, null for the first one.
+   * Missing on messages saved before branching existed: those follow the
+   * message before them.
+   */
+  parentId?: string | null;
+  status?: MessageStatus;
+  /** Model that wrote the message, for replies */
+  model?: string;
+  /** Deep Research job whose report the message holds */
+  researchJobId?: string;
+  timestamp: Date;
+}
+
+export interface GemRecord {
+  id: string;
+  userId: string;
+  name: string;
+  /** Emoji shown as the Gem's avatar */
+  icon: string;
+  instructions: string;
+  model?: string;
+  starterPrompts: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ResearchJobRecord {
+  id: string;
+  userId: string;
+  chatroomId: string;
+  question: string;
+  model: string;
+  settings?: GenerationSettings;
+  status: ResearchJobDto["status"];
+  /** The whole timeline, rewritten as the job progresses */
+  steps: ResearchStepDto[];
+  report?: string;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UserRepository {
+  findById(id: string): Promise<UserRecord | null>;
+  findByPhone(countryCode: string, phone: string): Promise<UserRecord | null>;
+  /** Resolves with the user already registered with that phone, if any */
+  create(user: UserRecord): Promise<UserRecord>;
+}
+
+export interface OtpChallengeRepository {
+  /** Most recent challenge issued to `destination`, consumed or not */
+  findLatest(destination: string): Promise<OtpChallengeRecord | null>;
+  save(challenge: OtpChallengeRecord): Promise<void>;
+}
+
+export interface SessionRepository {
+  findById(id: string): Promise<SessionRecord | null>;
+  listByUser(userId: string): Promise<SessionRecord[]>;
+  save(session: SessionRecord): Promise<void>;
+}
+
+export interface ChatroomRepository {
+  findById(id: string): Promise<ChatroomRecord | null>;
+  /** Most recently active first */
+  listByUser(userId: string): Promise<ChatroomRecord[]>;
+  save(chatroom: ChatroomRecord): Promise<void>;
+  /** Deletes the chatroom together with its messages */
+  delete(id: string): Promise<void>;
+}
+
+export interface GemRepository {
+  findById(id: string): Promise<GemRecord | null>;
+  /** Most recently updated first */
+  listByUser(userId: string): Promise<GemRecord[]>;
+  save(gem: GemRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface ResearchJobRepository {
+  findById(id: string): Promise<ResearchJobRecord | null>;
+  save(job: ResearchJobRecord): Promise<void>;
+}
+
+export interface MessagePageOptions {
+  /** Only return messages that come before this one */
+  before?: MessageRecord;
+  /** Return at most this many, counting back from the newest */
+  limit?: number;
+}
+
+export interface MessageRepository {
+  findById(id: string): Promise<MessageRecord | null>;
+  /** Oldest first; ties on timestamp are ordered by id */
+  listByChatroom(
+    chatroomId: string,
+    options?: MessagePageOptions,
+  ): Promise<MessageRecord[]>;
+  save(message: MessageRecord): Promise<void>;
+}
+
+/**
+ * Everything the server persists, as provided by one storage driver
+ */
+export interface Storage {
+  users: UserRepository;
+  otpChallenges: OtpChallengeRepository;
+  sessions: SessionRepository;
+  chatrooms: ChatroomRepository;
+  messages: MessageRepository;
+  gems: GemRepository;
+  researchJobs: ResearchJobRepository;
+  /** Resolves once queries can be served; rejects if they never can */
+  ready(): Promise<void>;
+  /** Flushes pending writes and releases the underlying resources */
+  close(): Promise<void>;
+}
@@ -0,0 +1,82 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { createServer, type ServerOptions } from "./index";
+import { createMockProvider } from "./providers";
+import { createMemorySmsTransport } from "./auth/sms";
+
+/**
+ * Spins up createServer() on a random port for route-level specs.
+ * `login()` walks the OTP flow and returns a Cookie header for the session.
+ */
+export async function startTestServer(options: ServerOptions = {}) {
+  const smsTransport = createMemorySmsTransport();
+  const app = createServer({
+    providers: [createMockProvider()],
+    smsTransport,
+    authSecret: "test-secret",
+    storage: { driver: "memory" },
+    // Specs sign the same number in repeatedly
+    otp: { resendCooldownMs: 0 },
+    ...options,
+  });
+
+  const server = await new Promise<Server>((resolve) => {
+    const listener = app.listen(0, () => resolve(listener));
+  });
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const api = (
+    path: string,
+    init: { method?: string; body?: unknown; cookie?: string } = {},
+  ) =>
+    fetch(`${baseUrl}${path}`, {
+      method: init.method ?? (init.body === undefined ? "GET" : "POST"),
+      headers: {
+        ...(init.body === undefined
+          ? {}
+          : { "Content-Type": "application/json" }),
+        ...(init.cookie ? { Cookie: init.cookie } : {}),
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+
+  const post = (path: string, body: unknown, cookie?: string) =>
+    api(path, { method: "POST", body, cookie });
+
+  const login = async (phoneNumber = "4155550123", userAgent?: string) => {
+    const phone = { countryCode: "+1", phoneNumber };
+    await post("/api/auth/otp/request", phone);
+
+    const sms = smsTransport.outbox[smsTransport.outbox.length - 1];
+    const code = /(\d{6})/.exec(sms.body)![1];
+
+    const response = await fetch(`${baseUrl}/api/auth/otp/verify`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(userAgent ? { "User-Agent": userAgent } : {}),
+      },
+      body: JSON.stringify({ ...phone, code }),
+    });
+    return cookieHeader(response);
+  };
+
+  return {
+    baseUrl,
+    smsTransport,
+    api,
+    post,
+    login,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Turns a response's Set-Cookie headers into a Cookie request header
+ */
+export function cookieHeader(response: Response) {
+  return response.headers
+    .getSetCookie()
+    .map((cookie) => cookie.split(";")[0])
+    .join("; ");
+}
@@ -10,3 +10,385 @@
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * Error body returned by any /api route that fails
+ */
+export interface ErrorResponse {
+  error: string;
+}
+
+/**
+ * A single turn of conversation history sent to the model
+ */
+export interface ChatMessage {
+  sender: "user" | "ai";
+  content: string;
+  imageUrl?: string;
+}
+
+/**
+ * How a chat's replies are generated. Unset fields use the model's defaults.
+ */
+export interface GenerationSettings {
+  /** Instructions the model follows for the whole conversation */
+  systemInstruction?: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  /** Generation ends before any of these is written */
+  stopSequences?: string[];
+}
+
+/**
+ * Accepted ranges for GenerationSettings, checked on both ends
+ */
+export const GENERATION_LIMITS = {
+  systemInstructionLength: 10_000,
+  temperature: { min: 0, max: 2 },
+  topP: { min: 0, max: 1 },
+  maxOutputTokens: { min: 1, max: 65_536 },
+  stopSequences: 4,
+};
+
+/**
+ * Request body for POST /api/chat
+ */
+export interface ChatRequest {
+  messages: ChatMessage[];
+  model?: string;
+  settings?: GenerationSettings;
+}
+
+/**
+ * Response type for POST /api/chat
+ */
+export interface ChatResponse {
+  content: string;
+  model: string;
+}
+
+/**
+ * Events sent by POST /api/chat/stream, one per SSE `data` line
+ */
+export type ChatStreamEvent =
+  | { type: "chunk"; text: string }
+  | { type: "done"; model: string }
+  | { type: "error"; error: string };
+
+/**
+ * A model the server can generate with, as listed by GET /api/models
+ */
+export interface ModelDto {
+  id: string;
+  /** Provider serving the model, e.g. "gemini" or "openai" */
+  provider: string;
+}
+
+/**
+ * Response type for GET /api/models
+ */
+export interface ModelsResponse {
+  models: ModelDto[];
+  /** Used when a request names no model */
+  defaultModel: string;
+}
+
+/**
+ * Authenticated user as returned by the auth routes
+ */
+export interface UserDto {
+  id: string;
+  phone: string;
+  countryCode: string;
+}
+
+/**
+ * Request body for POST /api/auth/otp/request
+ */
+export interface OtpRequest {
+  countryCode: string;
+  phoneNumber: string;
+}
+
+/**
+ * Response type for POST /api/auth/otp/request
+ */
+export interface OtpRequestResponse {
+  expiresAt: string;
+  resendAvailableAt: string;
+}
+
+/**
+ * Request body for POST /api/auth/otp/verify
+ */
+export interface OtpVerifyRequest extends OtpRequest {
+  code: string;
+}
+
+/**
+ * Response type for POST /api/auth/otp/verify
+ */
+export interface OtpVerifyResponse {
+  user: UserDto;
+}
+
+/**
+ * Response type for GET /api/auth/me and POST /api/auth/refresh
+ */
+export interface MeResponse {
+  user: UserDto;
+}
+
+/**
+ * A signed-in device, as listed by GET /api/auth/sessions
+ */
+export interface SessionDto {
+  id: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  /** True for the session making the request */
+  current: boolean;
+}
+
+/**
+ * Response type for GET /api/auth/sessions
+ */
+export interface SessionsResponse {
+  sessions: SessionDto[];
+}
+
+/**
+ * One saved state of a canvas
+ */
+export interface CanvasVersionDto {
+  id: string;
+  content: string;
+  /** What made this version, e.g. "Edited by you" */
+  note: string;
+  savedAt: string;
+}
+
+/**
+ * A document or code file edited next to a chat. Every change is saved as a
+ * new version; the last one is current.
+ */
+export interface CanvasDto {
+  title: string;
+  /** Language of a code file; the canvas holds a document when unset */
+  language?: string;
+  /** Oldest first */
+  versions: CanvasVersionDto[];
+}
+
+/**
+ * Accepted sizes for a canvas, checked on both ends. Past the version
+ * limit, the oldest versions are dropped.
+ */
+export const CANVAS_LIMITS = {
+  // Also applies to version notes
+  titleLength: 200,
+  languageLength: 50,
+  contentLength: 100_000,
+  versions: 50,
+};
+
+/**
+ * Chatroom as stored on the server (messages are fetched separately)
+ */
+export interface ChatroomDto {
+  id: string;
+  title: string;
+  /** Model new replies are generated with; the default model when unset */
+  model?: string;
+  settings?: GenerationSettings;
+  /** Gem the chat was started with */
+  gemId?: string;
+  canvas?: CanvasDto;
+  createdAt: string;
+  lastMessageAt?: string;
+}
+
+/**
+ * Message as stored on the server. Ids are generated by the client so
+ * retried writes are idempotent.
+ */
+export interface MessageDto {
+  id: string;
+  sender: "user" | "ai";
+  content: string;
+  imageUrl?: string;
+  /**
+   * Message this one follows; several messages sharing a parent are
+   * alternative branches. Null starts the conversation, and a missing
+   * parent (older messages) means the message before it in time.
+   */
+  parentId?: string | null;
+  /**
+   * Where the message is in its round trip with the model: a prompt is
+   * "pending" until the reply starts, and "failed" or "stopped" if it never
+   * did; a reply is "pending" while it streams, and "failed" or "stopped"
+   * when cut short. Missing on older messages, which count as "sent".
+   */
+  status?: "pending" | "sent" | "failed" | "stopped";
+  /** Model that wrote a reply */
+  model?: string;
+  /** Deep Research job whose report the reply holds */
+  researchJobId?: string;
+  timestamp: string;
+}
+
+/**
+ * Request body for POST /api/chatrooms
+ */
+export interface CreateChatroomRequest {
+  id?: string;
+  title?: string;
+  model?: string;
+  settings?: GenerationSettings;
+  gemId?: string;
+  createdAt?: string;
+}
+
+/**
+ * Request body for PATCH /api/chatrooms/:id
+ */
+export interface UpdateChatroomRequest {
+  title?: string;
+  model?: string;
+  /** Replaces the chatroom's settings as a whole */
+  settings?: GenerationSettings;
+  /** Replaces the canvas, history included */
+  canvas?: CanvasDto;
+}
+
+/**
+ * Response type for GET /api/chatrooms
+ */
+export interface ChatroomsResponse {
+  chatrooms: ChatroomDto[];
+}
+
+/**
+ * A reusable assistant persona. Chats started with a Gem take its
+ * instructions and model, and show its name and icon.
+ */
+export interface GemDto {
+  id: string;
+  name: string;
+  /** Emoji shown as the Gem's avatar */
+  icon: string;
+  /** System instruction given to chats started with the Gem */
+  instructions: string;
+  /** Model those chats start with; the default model when unset */
+  model?: string;
+  /** Suggested first prompts, offered while a chat is empty */
+  starterPrompts: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Accepted sizes for Gem fields, checked on both ends
+ */
+export const GEM_LIMITS = {
+  nameLength: 100,
+  starterPrompts: 4,
+  starterPromptLength: 500,
+};
+
+/**
+ * Request body for POST /api/gems and PUT /api/gems/:id
+ */
+export interface SaveGemRequest {
+  /** Client-generated id for creation, so retries are idempotent */
+  id?: string;
+  name: string;
+  icon: string;
+  instructions: string;
+  model?: string;
+  starterPrompts?: string[];
+}
+
+/**
+ * Response type for GET /api/gems
+ */
+export interface GemsResponse {
+  gems: GemDto[];
+}
+
+/**
+ * Something a Deep Research step drew on, cited in the report
+ */
+export interface ResearchSourceDto {
+  title: string;
+  url?: string;
+}
+
+/**
+ * One entry in a Deep Research job's timeline
+ */
+export interface ResearchStepDto {
+  id: string;
+  /**
+   * "plan" splits the question into sub-questions, each answered by a
+   * "search" step; "report" compiles the answers
+   */
+  kind: "plan" | "search" | "report";
+  title: string;
+  status: "pending" | "running" | "done" | "failed";
+  /** What the step produced, as Markdown */
+  output?: string;
+  sources?: ResearchSourceDto[];
+}
+
+/**
+ * A Deep Research job, as returned by the /api/research routes. Jobs run
+ * on the server, so clients poll them rather than keep a request open.
+ */
+export interface ResearchJobDto {
+  id: string;
+  /** Chatroom the research was started from */
+  chatroomId: string;
+  question: string;
+  model: string;
+  status: "running" | "completed" | "failed" | "cancelled";
+  steps: ResearchStepDto[];
+  /** The cited report, as Markdown, once completed */
+  report?: string;
+  /** Why the job failed */
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Request body for POST /api/research
+ */
+export interface StartResearchRequest {
+  chatroomId: string;
+  question: string;
+  model?: string;
+  settings?: GenerationSettings;
+}
+
+/**
+ * Query parameters for GET /api/chatrooms/:id/messages.
+ * Pages walk backwards from the newest message.
+ */
+export interface MessagesQuery {
+  /** Id of the oldest message already loaded */
+  before?: string;
+  limit?: number;
+}
+
+/**
+ * Response type for GET /api/chatrooms/:id/messages
+ */
+export interface MessagesResponse {
+  /** Oldest first */
+  messages: MessageDto[];
+  /** Whether there are older messages before the first one returned */
+  hasMore: boolean;
+}
@@ -0,0 +1,50 @@
+/**
+ * Minimal Server-Sent Events reader shared by the client (reading our own
+ * /api/chat/stream) and the server (reading upstream provider streams).
+ * Yields the `data` payload of every event; comments and other fields are
+ * ignored.
+ */
+export async function* readSseData(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? "";
+
+      for (const event of events) {
+        const data = parseEventData(event);
+        if (data !== null) yield data;
+      }
+    }
+
+    const data = parseEventData(buffer);
+    if (data !== null) yield data;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEventData(event: string): string | null {
+  const lines = event
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).replace(/^ /, ""));
+
+  return lines.length > 0 ? lines.join("\n") : null;
+}
+
+/**
+ * Serializes a payload as a single SSE `data` event
+ */
+export function formatSseData(payload: unknown): string {
+  return `data: ${JSON.stringify(payload)}\n\n`;
+}
@@ -32,6 +32,8 @@ export default defineConfig({
         // External dependencies that should not be bundled
         "express",
         "cors",
+        // Loads its WebAssembly binary from its own package directory
+        "sql.js",
       ],
       output: {
         format: "es",